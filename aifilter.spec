@@ -13,7 +13,20 @@ state
     a set of Filters with
         a filterId String
         a criteria mapping from String to set of Strings
+        an exclusions mapping from String to set of Strings
+        a ranges mapping from String to (min String, max String)  // bounds on ordered fields like grade
+        an optional expression FilterExpression  // AND/OR/NOT tree of criteria
         a naturalQuery String  // optional natural language query
+        a history sequence of Strings  // every query applied, oldest first
+
+    an optional climberProfile with
+        a maxFlashGrade String
+        a projectGrade String
+        a set of preferredStyles Strings
+        a set of weaknesses Strings
+
+    a synonyms mapping from (field String, alias String) to String  // slang → valid value
+    a set of rules  // contradictions and suspect combinations, each an error or a warning
 
 actions
     createFilter(): (filter: Filter)
@@ -22,25 +35,111 @@ actions
             create filter with empty criteria and naturalQuery
             return the created filter
 
-    async parseQuery(filter: Filter, query: String, llm: GeminiLLM): Boolean
+    addSynonym(field: String, alias: String, canonical: String)
+        requires canonical is a valid value of field
+        effect set synonyms[field, alias] = canonical
+
+    addRule(rule: CriteriaRule)
+        effect add rule to rules, replacing any rule with the same name
+
+    removeRule(name: String): Boolean
+        effect remove the rule with that name from rules and return whether one existed
+
+    setClimberProfile(profile: ClimberProfile)
+        requires profile grades are valid and projectGrade is not below maxFlashGrade
+        effect set climberProfile, used by later parseQuery calls
+
+    async parseQuery(filter: Filter, query: String, llm: LLM, profile: ClimberProfile): ParseResult
         requires filter exists
-        effect uses llm to convert query into structured criteria
-               if successful: update filter.criteria and set filter.naturalQuery = query
-               return success status
+        effect uses llm to convert query into structured criteria, exclusions
+               and alternatives ("either ... or ...");
+               relative difficulty ("easy", "hard", "not impossible") is resolved against
+               the given profile, or climberProfile if none is given
+               the llm is given a response schema built from the item schema; its output
+               is read as bare JSON, a fenced block or the first balanced object that parses
+               values in the LLM output are normalized first: case, plurals, synonyms,
+               near misspellings and grade formatting are rewritten to valid values
+               criteria breaking an error rule fail validation; broken warning rules are
+               reported but the criteria are still applied
+               the query is delimited in every prompt as untrusted text; a query that looks
+               like a prompt injection is not sent to the LLM (unless injection is "warn")
+               and fails, or goes to the rule-based parser with parser "auto"
+               if successful: update filter.criteria, filter.exclusions, filter.expression
+               and set filter.naturalQuery = query
+               if the query is ambiguous: leave filter unchanged and return
+               2-3 labeled candidate interpretations
+               if the LLM output fails validation: send the errors back and ask for
+               corrected output, up to the repair policy's retry count and time budget
+               with parser "rules": criteria come from a keyword and pattern parser over
+               the schema instead of the LLM; with parser "auto": that parser is used
+               when the LLM fails
+               with an ensemble: run several prompt variants, keep each value a majority
+               (or a given share) of the valid outputs agree on, and report every
+               variant's dropped and missing values
+               return success status, ambiguity, interpretations, the parser used,
+               every LLM attempt,
+               every value rewrite and every rule warning
+
+    applyInterpretation(filter: Filter, result: ParseResult, index: Number)
+        requires filter exists and result has an interpretation at index
+        effect apply that interpretation's criteria to filter and set
+               filter.naturalQuery = result's query
+
+    async refineQuery(filter: Filter, query: String, llm: LLM): ParseResult
+        requires filter exists
+        effect uses llm with filter's current criteria and history to get a diff
+               (values to add, remove or replace per field);
+               if the diff and the filter it produces are valid: apply it and
+               append query to filter.history
+               queries that look like prompt injections are screened as in parseQuery
 
     addCriteria(filter: Filter, key: String, values: set of Strings)
         requires filter exists
         effect add or update criteria[key] = values in filter
 
+    addExclusion(filter: Filter, key: String, values: set of Strings)
+        requires filter exists
+        effect add or update exclusions[key] = values in filter
+
+    addRange(filter: Filter, key: String, min: String, max: String)
+        requires filter exists and key names an ordered field; min and max are optional
+        effect add or update ranges[key] = (min, max) in filter
+
+    setExpression(filter: Filter, expression: FilterExpression)
+        requires filter exists
+        effect set filter.expression, replacing any previous expression
+
     search(filter: Filter, items: set of Items): (results: set of Items)
         requires filter exists
         effect return items that match all criteria in filter
+               and have no value listed in any of its exclusions
+               and fall within every range in filter
+               and, if filter.expression is set, satisfy that expression
+
+    search(filter: Filter, items: set of Items, weights: mapping from String to Number): (results: sequence of (item: Item, score: Number))
+        requires filter exists
+        effect score each item by the weighted share of criteria, exclusions and expression it satisfies;
+               return items with a positive score, highest score first
+
+    search(filter: Filter, items: set of Items, explain: Boolean): (results: sequence of Explanation)
+        requires filter exists
+        effect for every item, list the criteria, exclusions and expression it satisfied
+               and failed, with the item values each one matched on
+
+    whyNot(filter: Filter, items: set of Items, name: String): (explanation: Explanation)
+        requires filter exists and an item in items has that name
+        effect return the explanation for that item, as search with explain does
 
     clearFilter(filter: Filter)
         requires filter exists
-        effect remove all criteria and clear naturalQuery
+        effect remove all criteria, exclusions, ranges and expression and clear naturalQuery and history
 
 notes
+    Items are described by a schema: each field is single or multi-valued and
+    either lists its allowed values or is ordered on a scale. Prompts, validators
+    and normalization are generated from the schema.
     Designed for climbing route search with terminology like grade, wall angle, 
-    hold types, and training goals
+    hold types, and training goals, which is the default schema. Grades are ordered
+    values: V-scale, Fontainebleau and YDS grades are converted to a common scale,
+    so "7A" matches "V6"
 </concept_spec>
@@ -1,31 +1,282 @@
-import { GeminiLLM } from "./gemini-llm";
-
-export interface ClimbingRoute {
-  name: string;
-  grade: string;
-  angle: string;
-  holdTypes: string[];
-  moveTypes: string[];
-  goals: string[];
-}
+import {
+  ClimberProfile,
+  describeProfile,
+  difficultyBounds,
+  findDifficultyTerm,
+  validateProfile,
+} from "./climber-profile";
+import {
+  CriteriaNormalizer,
+  NormalizationRewrite,
+} from "./criteria-normalizer";
+import { CLIMBING_ROUTE_SCHEMA, ClimbingRoute } from "./climbing-routes";
+import { CriteriaRule, RuleEngine, RuleViolation } from "./criteria-rules";
+import { criteriaFromValues, criteriaValues } from "./criteria-values";
+import { CallContext, LLM } from "./llm";
+import { CancelledError } from "./llm-errors";
+import { JSONSchema, parseJSONObject } from "./llm-json";
+import { collectStream, StreamOptions } from "./llm-stream";
+import { Logger, silentLogger } from "./logger";
+import {
+  delimitUserInput,
+  detectInjection,
+  InjectionFinding,
+  untrustedInputRule,
+} from "./prompt-safety";
+import { RuleParser } from "./rule-parser";
+import {
+  FieldSchema,
+  ItemSchema,
+  OrderedScale,
+  orderedFields,
+  schemaFields,
+  validateSchema,
+  validValues,
+} from "./item-schema";
+
+// The route type and its schema lived here before the generic filter
+export type { ClimbingRoute } from "./climbing-routes";
+export { CLIMBING_ROUTE_SCHEMA } from "./climbing-routes";
 
 export interface Filter {
   filterId: string;
   criteria: Map<string, Set<string>>;
+  exclusions: Map<string, Set<string>>;
+  ranges: Map<string, ValueRange>;
+  expression?: FilterExpression;
   naturalQuery?: string;
+  history: string[]; // every query applied to the filter, oldest first
+}
+
+/**
+ * Inclusive bounds on an ordered field such as grade; either end may be open
+ */
+export interface ValueRange {
+  min?: string;
+  max?: string;
 }
 
+/**
+ * Tree-shaped criteria for boolean filter expressions such as
+ * "(crimp AND overhang) OR (sloper AND roof)". A criterion leaf matches like
+ * a flat criteria entry: ANY of its values.
+ */
+export type FilterExpression =
+  | { type: "criterion"; key: string; values: Set<string> }
+  | { type: "range"; key: string; range: ValueRange }
+  | { type: "and"; children: FilterExpression[] }
+  | { type: "or"; children: FilterExpression[] }
+  | { type: "not"; child: FilterExpression };
+
 export type PromptVariant = "basic" | "detailed" | "constrained";
 
-export class AIFilter {
+/**
+ * Which parser turns a query into criteria: the LLM, the offline rule-based
+ * parser, or the LLM with the rule-based parser as fallback when it fails
+ */
+export type ParserMode = "llm" | "rules" | "auto";
+
+/**
+ * What to do with a query that looks like a prompt injection: "block" fails
+ * it without calling the LLM, "warn" reports it and parses it anyway
+ */
+export type InjectionPolicy = "block" | "warn";
+
+/**
+ * One candidate reading of an ambiguous query. criteria is a validated
+ * criteria group in the same JSON shape the LLM returns for a clear query.
+ */
+export interface Interpretation {
+  label: string;
+  criteria: Record<string, unknown>;
+}
+
+/**
+ * One LLM call made while parsing a query: the initial answer (attempt 0)
+ * or a repair after it failed validation
+ */
+export interface ParseAttempt {
+  attempt: number;
+  response: string;
+  success: boolean;
+  errors: string[];
+  elapsedMs: number;
+}
+
+/**
+ * Outcome of parseQuery. An ambiguous query applies nothing to the filter;
+ * the caller picks one of the interpretations with applyInterpretation.
+ */
+export interface ParseResult {
+  query: string;
+  success: boolean;
+  ambiguous: boolean;
+  interpretations: Interpretation[];
+  attempts: ParseAttempt[];
+  parser: "llm" | "rules"; // the parser that produced this result
+  rewrites: NormalizationRewrite[]; // value rewrites made on the final answer
+  warnings: RuleViolation[]; // rule warnings on the applied criteria
+  criteria?: Record<string, unknown>; // the criteria group applied, on success
+  ensemble?: EnsembleReport; // set when the query was parsed by an ensemble
+  injection?: InjectionFinding[]; // set when the query looked like an injection
+  error?: string;
+}
+
+/**
+ * How hard to try when the LLM's output fails validation: up to maxRepairs
+ * extra calls, and none started once budgetMs has passed for the query
+ */
+export interface RepairPolicy {
+  maxRepairs: number;
+  budgetMs: number;
+}
+
+/**
+ * Run several prompt variants on one query and keep the values enough of
+ * them agree on. Without a threshold a value needs a strict majority of the
+ * variants that produced valid output; with one, at least that share (0-1).
+ */
+export interface EnsembleOptions {
+  variants?: PromptVariant[]; // all three if omitted
+  threshold?: number;
+  parallel?: boolean; // true if omitted; false runs the variants in turn
+}
+
+/**
+ * What one variant of an ensemble proposed and how it differed from the
+ * merged criteria. Values are written as "field=value", "exclude.field=value",
+ * "ranges.field.min=value" or "anyOf=[...]".
+ */
+export interface VariantOutcome {
+  variant: PromptVariant;
+  success: boolean;
+  criteria?: Record<string, unknown>;
+  attempts: ParseAttempt[];
+  error?: string;
+  dropped: string[]; // proposed by this variant, rejected by the vote
+  missing: string[]; // in the merged criteria, not proposed by this variant
+}
+
+export interface EnsembleReport {
+  variants: VariantOutcome[];
+  votes: Record<string, number>; // value → number of variants proposing it
+  merged: Record<string, unknown>;
+}
+
+/**
+ * Given onProgress or signal, LLM answers are streamed where the LLM can
+ * stream, and reading stops once a complete JSON object has arrived.
+ * onProgress hears about every chunk; aborting signal cancels the parse,
+ * which then rejects with a CancelledError, as DayPlanner's does.
+ */
+export interface ParseOptions extends StreamOptions {
+  profile?: ClimberProfile; // overrides the profile set on the AIFilter
+  repair?: Partial<RepairPolicy>; // overrides the AIFilter's repair policy
+  parser?: ParserMode; // "llm" if omitted
+  ensemble?: EnsembleOptions | true; // vote across prompt variants
+  injection?: InjectionPolicy; // "block" if omitted
+}
+
+/**
+ * Relative importance of each field in ranked search, over the schema's
+ * weights. The "expression" key weighs the filter's boolean expression as a
+ * whole.
+ */
+export type FieldWeights = Record<string, number>;
+
+export interface RankedSearchOptions {
+  ranked: true;
+  weights?: FieldWeights;
+}
+
+export interface ExplainSearchOptions {
+  explain: true;
+}
+
+/**
+ * An item scored by ranked search. score is the weighted share of criteria
+ * the item satisfies (0 to 1); matchedValues counts the filter values it hit
+ * and breaks ties between equal scores.
+ */
+export interface RankedItem<Item> {
+  item: Item;
+  score: number;
+  matchedValues: number;
+}
+
+/**
+ * How one criterion, exclusion, range or the boolean expression fared against
+ * an item. values are what the filter asked for, itemValues what the item
+ * has and matchedValues the overlap.
+ */
+export interface CriterionExplanation {
+  kind: "criterion" | "exclusion" | "range" | "expression";
+  key: string;
+  values: string[];
+  itemValues: string[];
+  matchedValues: string[];
+  satisfied: boolean;
+}
+
+export interface ItemExplanation<Item> {
+  item: Item;
+  matches: boolean;
+  satisfied: CriterionExplanation[];
+  failed: CriterionExplanation[];
+}
+
+export class AIFilter<Item = ClimbingRoute> {
   private filters: Filter[] = [];
   private filterIdCounter = 0;
   private promptVariant: PromptVariant = "basic";
+  private climberProfile?: ClimberProfile;
+  private repairPolicy: RepairPolicy = { maxRepairs: 2, budgetMs: 30000 };
+  private schema: ItemSchema<Item>;
+  private validValues: Record<string, Set<string>>;
+  private orderedFields: Record<string, OrderedScale>;
+  private normalizer: CriteriaNormalizer;
+  private ruleParser: RuleParser<Item>;
+  private ruleEngine: RuleEngine;
+
+  /**
+   * @param schema describes the items to search; climbing routes if omitted
+   * @param logger receives progress, raw LLM responses and errors; silent if
+   *   omitted
+   */
+  constructor(
+    schema?: ItemSchema<Item>,
+    private logger: Logger = silentLogger
+  ) {
+    this.schema =
+      schema ?? (CLIMBING_ROUTE_SCHEMA as unknown as ItemSchema<Item>);
+    validateSchema(this.schema);
+
+    this.validValues = validValues(this.schema);
+    this.orderedFields = orderedFields(this.schema);
+
+    const canonicals: Record<string, (value: string) => string | undefined> =
+      {};
+    const synonyms: Record<string, Record<string, string>> = {};
+    for (const [key, field] of schemaFields(this.schema)) {
+      if (field.scale) canonicals[key] = field.scale.canonical;
+      if (field.synonyms) synonyms[key] = field.synonyms;
+    }
+    this.normalizer = new CriteriaNormalizer(
+      this.validValues,
+      canonicals,
+      synonyms
+    );
+    this.ruleParser = new RuleParser(this.schema);
+    this.ruleEngine = new RuleEngine(this.orderedFields, this.schema.rules);
+  }
 
   createFilter(): Filter {
     const filter: Filter = {
       filterId: `filter_${this.filterIdCounter++}`,
       criteria: new Map(),
+      exclusions: new Map(),
+      ranges: new Map(),
+      history: [],
     };
     this.filters.push(filter);
     return filter;
@@ -33,47 +284,652 @@ export class AIFilter {
 
   setPromptVariant(variant: PromptVariant): void {
     this.promptVariant = variant;
-    console.log(`Prompt variant set to: ${variant}`);
+    this.logger.info(`Prompt variant set to: ${variant}`, { variant });
+  }
+
+  /**
+   * Calibrate relative difficulty terms ("easy", "hard", "not impossible")
+   * to this climber for every later parseQuery call
+   */
+  setClimberProfile(profile: ClimberProfile | undefined): void {
+    if (profile) this.checkProfile(profile);
+    this.climberProfile = profile;
+    this.logger.info(
+      profile
+        ? `Climber profile set: flash ${profile.maxFlashGrade}, project ${profile.projectGrade}`
+        : "Climber profile cleared"
+    );
+  }
+
+  /**
+   * Teach the normalizer another way of writing a value, e.g.
+   * addSynonym("holdTypes", "gaston", "pinch")
+   */
+  addSynonym(field: string, alias: string, canonical: string): void {
+    this.normalizer.addSynonym(field, alias, canonical);
+  }
+
+  /**
+   * Check parsed criteria for another contradiction or suspect combination.
+   * Replaces any rule with the same name, including the schema's own.
+   */
+  addRule(rule: CriteriaRule): void {
+    this.ruleEngine.addRule(rule);
+  }
+
+  removeRule(name: string): boolean {
+    return this.ruleEngine.removeRule(name);
+  }
+
+  setRepairPolicy(policy: Partial<RepairPolicy>): void {
+    this.repairPolicy = this.resolveRepairPolicy(policy);
+    this.logger.info(
+      `Repair policy set: up to ${this.repairPolicy.maxRepairs} repairs within ${this.repairPolicy.budgetMs}ms`
+    );
   }
 
   async parseQuery(
     filter: Filter,
     query: string,
-    llm: GeminiLLM
-  ): Promise<boolean> {
+    llm: LLM,
+    options: ParseOptions = {}
+  ): Promise<ParseResult> {
+    if (options.profile) this.checkProfile(options.profile);
+    const profile = options.profile ?? this.climberProfile;
+
+    const mode = options.parser ?? "llm";
+    // The rule-based parser never shows the query to an LLM
+    const injection = mode === "rules" ? [] : this.screenQuery(query);
+    let result: ParseResult;
+
+    if (mode === "rules") {
+      result = this.parseWithRules(filter, query, profile);
+    } else if (injection.length > 0 && options.injection !== "warn") {
+      result = this.blockedResult(query, injection);
+    } else if (options.ensemble) {
+      result = await this.parseEnsemble(
+        filter,
+        query,
+        llm,
+        options.ensemble === true ? {} : options.ensemble,
+        this.resolveRepairPolicy(options.repair),
+        options,
+        profile
+      );
+    } else {
+      this.logger.info(`Parsing with ${this.promptVariant} prompt variant...`, {
+        filterId: filter.filterId,
+        variant: this.promptVariant,
+      });
+      const prompt = this.createParsePrompt(query, this.promptVariant, profile);
+      result = await this.executeWithRepair(
+        llm,
+        filter,
+        prompt,
+        query,
+        this.resolveRepairPolicy(options.repair),
+        (text) =>
+          this.parseAndApplyCriteria(text, query, profile, (criteria) =>
+            this.applyCriteria(filter, criteria)
+          ),
+        this.parseResponseSchema(),
+        { action: "parseQuery", variant: this.promptVariant },
+        options
+      );
+    }
+
+    if (
+      mode === "auto" &&
+      !result.success &&
+      !result.ambiguous &&
+      !options.signal?.aborted
+    ) {
+      this.logger.warn(
+        "LLM parsing failed; falling back to rule-based parser",
+        {
+          filterId: filter.filterId,
+        }
+      );
+      result = {
+        ...this.parseWithRules(filter, query, profile),
+        attempts: result.attempts,
+      };
+    }
+    if (injection.length > 0) result = { ...result, injection };
+
+    if (result.success) {
+      filter.naturalQuery = query;
+      filter.history.push(query);
+      this.logger.info("Successfully parsed query into filter criteria", {
+        filterId: filter.filterId,
+        query,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a query with the offline rule-based parser. Its criteria go
+   * through the same normalization, calibration and validation as the LLM's.
+   */
+  private parseWithRules(
+    filter: Filter,
+    query: string,
+    profile?: ClimberProfile
+  ): ParseResult {
+    this.logger.info("Parsing with rule-based parser...", {
+      filterId: filter.filterId,
+    });
+    const group = this.ruleParser.parse(query);
+
+    if (Object.keys(group).length === 0 && !findDifficultyTerm(query)) {
+      this.logger.info("Rule-based parser found no criteria in query", {
+        filterId: filter.filterId,
+      });
+      return {
+        query,
+        success: false,
+        ambiguous: false,
+        interpretations: [],
+        attempts: [],
+        parser: "rules",
+        rewrites: [],
+        warnings: [],
+        error: "No criteria recognized in query",
+      };
+    }
+
+    return {
+      ...this.parseAndApplyCriteria(
+        JSON.stringify(group),
+        query,
+        profile,
+        (criteria) => this.applyCriteria(filter, criteria)
+      ),
+      parser: "rules",
+    };
+  }
+
+  /**
+   * Parse a query with several prompt variants, vote on every value they
+   * propose and apply the merged criteria. Each variant gets its own repair
+   * loop; variants that fail or find the query ambiguous don't vote.
+   */
+  private async parseEnsemble(
+    filter: Filter,
+    query: string,
+    llm: LLM,
+    options: EnsembleOptions,
+    policy: RepairPolicy,
+    stream: StreamOptions,
+    profile?: ClimberProfile
+  ): Promise<ParseResult> {
+    const variants = options.variants ?? ["basic", "detailed", "constrained"];
+    if (variants.length === 0) {
+      throw new Error("An ensemble needs at least one prompt variant");
+    }
+    if (
+      options.threshold !== undefined &&
+      !(options.threshold > 0 && options.threshold <= 1)
+    ) {
+      throw new Error(
+        `Ensemble threshold must be in (0, 1], got ${options.threshold}`
+      );
+    }
+    this.logger.info(`Parsing with ensemble of ${variants.join(", ")}...`, {
+      filterId: filter.filterId,
+      variants,
+    });
+
+    const runVariant = async (variant: PromptVariant) => {
+      let criteria: Record<string, unknown> | undefined;
+      const result = await this.executeWithRepair(
+        llm,
+        filter,
+        this.createParsePrompt(query, variant, profile),
+        query,
+        policy,
+        (text) =>
+          this.parseAndApplyCriteria(text, query, profile, (parsed) => {
+            criteria = parsed;
+          }),
+        this.parseResponseSchema(),
+        { action: "parseQuery", variant },
+        stream
+      );
+      return { variant, result, criteria };
+    };
+
+    const runs: Awaited<ReturnType<typeof runVariant>>[] = [];
+    if (options.parallel === false) {
+      for (const variant of variants) runs.push(await runVariant(variant));
+    } else {
+      runs.push(...(await Promise.all(variants.map(runVariant))));
+    }
+
+    const attempts = runs.flatMap((run) => run.result.attempts);
+    const rewrites = runs.flatMap((run) => run.result.rewrites);
+    const voters = runs.filter((run) => run.criteria !== undefined);
+
+    if (voters.length === 0) {
+      const ambiguous = runs.find((run) => run.result.ambiguous);
+      const failed = runs.map((run): VariantOutcome => ({
+        variant: run.variant,
+        success: false,
+        attempts: run.result.attempts,
+        error: run.result.error,
+        dropped: [],
+        missing: [],
+      }));
+      this.logger.warn("No prompt variant produced valid criteria", {
+        filterId: filter.filterId,
+      });
+      return {
+        ...(ambiguous?.result ?? runs[0].result),
+        attempts,
+        rewrites,
+        ensemble: { variants: failed, votes: {}, merged: {} },
+      };
+    }
+
+    // Count every value once per variant that proposed it
+    const proposals = new Map(
+      voters.map((run) => [
+        run.variant,
+        criteriaValues(run.criteria as Record<string, unknown>),
+      ])
+    );
+    const votes: Record<string, number> = {};
+    for (const values of proposals.values()) {
+      for (const value of values) votes[value] = (votes[value] ?? 0) + 1;
+    }
+
+    const kept = Object.keys(votes).filter((value) =>
+      options.threshold === undefined
+        ? votes[value] * 2 > voters.length
+        : votes[value] / voters.length >= options.threshold
+    );
+    const merged = criteriaFromValues(kept);
+
+    const outcomes = runs.map((run): VariantOutcome => {
+      const proposed = proposals.get(run.variant) ?? [];
+      return {
+        variant: run.variant,
+        success: run.criteria !== undefined,
+        criteria: run.criteria,
+        attempts: run.result.attempts,
+        error: run.result.error,
+        dropped: proposed.filter((value) => !kept.includes(value)),
+        missing: run.criteria
+          ? kept.filter((value) => !proposed.includes(value))
+          : [],
+      };
+    });
+    const ensemble = { variants: outcomes, votes, merged };
+
+    let warnings: RuleViolation[];
     try {
-      console.log(`Parsing with ${this.promptVariant} prompt variant...`);
+      warnings = this.validateLLMOutput(merged);
+    } catch (error) {
+      this.logger.error("Merged criteria are invalid", {
+        filterId: filter.filterId,
+        error: (error as Error).message,
+      });
+      return {
+        query,
+        success: false,
+        ambiguous: false,
+        interpretations: [],
+        attempts,
+        parser: "llm",
+        rewrites,
+        warnings: [],
+        ensemble,
+        error: (error as Error).message,
+      };
+    }
+
+    this.logger.info(
+      `Ensemble agreed on ${kept.length} of ${
+        Object.keys(votes).length
+      } proposed values from ${voters.length} variants`,
+      { filterId: filter.filterId, votes }
+    );
+    this.applyCriteria(filter, merged);
 
-      const prompt = this.createParsePrompt(query, this.promptVariant);
-      const text = await llm.executeLLM(prompt);
+    return {
+      query,
+      success: true,
+      ambiguous: false,
+      interpretations: [],
+      attempts,
+      parser: "llm",
+      rewrites,
+      warnings,
+      criteria: merged,
+      ensemble,
+    };
+  }
+
+  /**
+   * Apply the interpretation the caller picked from an ambiguous parse
+   */
+  applyInterpretation(
+    filter: Filter,
+    result: ParseResult,
+    index: number
+  ): void {
+    const interpretation = result.interpretations[index];
+    if (!interpretation) {
+      throw new Error(
+        `No interpretation ${index}; query "${result.query}" has ${result.interpretations.length}`
+      );
+    }
+
+    this.logger.info(`Applying interpretation: ${interpretation.label}`, {
+      filterId: filter.filterId,
+    });
+    this.applyCriteria(filter, interpretation.criteria);
+    filter.naturalQuery = result.query;
+    filter.history.push(result.query);
+  }
 
-      console.log("Received response from Gemini AI!");
-      console.log("\nRAW GEMINI RESPONSE");
-      console.log("======================");
-      console.log(text);
-      console.log("======================\n");
+  /**
+   * Refine a filter with a follow-up query ("make it harder", "drop the
+   * crimps"). The LLM sees the current criteria and earlier queries and
+   * returns a diff, which is validated against the resulting filter before
+   * anything is changed.
+   */
+  async refineQuery(
+    filter: Filter,
+    query: string,
+    llm: LLM,
+    options: ParseOptions = {}
+  ): Promise<ParseResult> {
+    this.logger.info("Refining filter with follow-up query...", {
+      filterId: filter.filterId,
+      query,
+    });
 
-      const success = this.parseAndApplyCriteria(text, filter);
+    if (options.profile) this.checkProfile(options.profile);
+    const profile = options.profile ?? this.climberProfile;
 
-      if (success) {
-        filter.naturalQuery = query;
-        console.log("Successfully parsed query into filter criteria");
-      }
+    const injection = this.screenQuery(query);
+    if (injection.length > 0 && options.injection !== "warn") {
+      return this.blockedResult(query, injection);
+    }
+
+    const prompt = this.createRefinePrompt(filter, query, profile);
+    let result = await this.executeWithRepair(
+      llm,
+      filter,
+      prompt,
+      query,
+      this.resolveRepairPolicy(options.repair),
+      (text) => this.parseAndApplyDiff(text, filter, query),
+      this.diffResponseSchema(),
+      { action: "refineQuery" },
+      options
+    );
+    if (injection.length > 0) result = { ...result, injection };
+
+    if (result.success) {
+      filter.history.push(query);
+      this.logger.info("Successfully refined filter criteria", {
+        filterId: filter.filterId,
+        query,
+      });
+    }
+
+    return result;
+  }
+
+  private screenQuery(query: string): InjectionFinding[] {
+    const findings = detectInjection(query);
+    for (const finding of findings) {
+      this.logger.warn(
+        `Possible prompt injection (${finding.pattern}): "${finding.excerpt}"`,
+        { pattern: finding.pattern, query }
+      );
+    }
+    return findings;
+  }
+
+  private blockedResult(
+    query: string,
+    findings: InjectionFinding[]
+  ): ParseResult {
+    this.logger.warn("Query blocked; nothing was sent to the LLM", { query });
+    return {
+      query,
+      success: false,
+      ambiguous: false,
+      interpretations: [],
+      attempts: [],
+      parser: "llm",
+      rewrites: [],
+      warnings: [],
+      injection: findings,
+      error: `Query looks like a prompt injection (${findings
+        .map((finding) => finding.pattern)
+        .join(", ")})`,
+    };
+  }
+
+  /**
+   * A profile calibrates the schema's difficulty field, so the schema needs one
+   */
+  private checkProfile(profile: ClimberProfile): void {
+    if (this.schema.difficultyField === undefined) {
+      throw new Error(
+        `Climber profiles need a difficulty field, but the ${this.schema.itemName} schema has none`
+      );
+    }
+    validateProfile(profile);
+  }
+
+  /**
+   * The widest difficulty range the rules accept, so calibrated ranges
+   * aren't rejected by the filter's own span rule
+   */
+  private profileSpan(): number | undefined {
+    const field = this.schema.difficultyField;
+    return field === undefined ? undefined : this.ruleEngine.maxSpan(field);
+  }
+
+  private resolveRepairPolicy(
+    overrides: Partial<RepairPolicy> = {}
+  ): RepairPolicy {
+    const policy = { ...this.repairPolicy, ...overrides };
+
+    if (!Number.isInteger(policy.maxRepairs) || policy.maxRepairs < 0) {
+      throw new Error(
+        `maxRepairs must be a non-negative integer, got ${policy.maxRepairs}`
+      );
+    }
+    if (!(policy.budgetMs >= 0)) {
+      throw new Error(`budgetMs must be non-negative, got ${policy.budgetMs}`);
+    }
+    return policy;
+  }
+
+  /**
+   * Call the LLM and parse its answer; while the answer fails to parse or
+   * validate, send the errors back and ask for corrected JSON, within the
+   * repair policy. Every call is recorded in the result's attempts.
+   */
+  private async executeWithRepair(
+    llm: LLM,
+    filter: Filter,
+    prompt: string,
+    query: string,
+    policy: RepairPolicy,
+    parse: (text: string) => ParseResult,
+    responseSchema: JSONSchema,
+    context: CallContext,
+    stream: StreamOptions = {}
+  ): Promise<ParseResult> {
+    const attempts: ParseAttempt[] = [];
+    const started = Date.now();
+    const log = this.logger.child({ filterId: filter.filterId, ...context });
+    let currentPrompt = prompt;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const attemptStarted = Date.now();
+        const call = {
+          responseSchema,
+          context: {
+            concept: "AIFilter",
+            ...context,
+            action: attempt > 0 ? `${context.action} (repair)` : context.action,
+          },
+        };
+        const text =
+          stream.onProgress || stream.signal
+            ? await collectStream(llm, currentPrompt, {
+                ...call,
+                ...stream,
+                stopWhenComplete: true,
+              })
+            : await llm.executeLLM(currentPrompt, call);
 
-      return success;
+        log.debug("Received response from LLM", { attempt, response: text });
+
+        const result = parse(text);
+        const settled = result.success || result.ambiguous;
+        attempts.push({
+          attempt,
+          response: text,
+          success: settled,
+          errors: settled ? [] : this.errorLines(result.error),
+          elapsedMs: Date.now() - attemptStarted,
+        });
+
+        if (settled) {
+          return { ...result, attempts };
+        }
+        if (attempt >= policy.maxRepairs) {
+          log.warn(`Giving up after ${attempt} repair attempts`);
+          return { ...result, attempts };
+        }
+        if (Date.now() - started >= policy.budgetMs) {
+          log.warn(`Giving up: repair budget of ${policy.budgetMs}ms spent`);
+          return { ...result, attempts };
+        }
+
+        log.info(
+          `Asking LLM to repair its output (repair ${attempt + 1} of ${policy.maxRepairs})...`,
+          { attempt: attempt + 1, error: result.error }
+        );
+        currentPrompt = this.createRepairPrompt(prompt, text, result.error);
+      }
     } catch (error) {
-      console.error("Error calling Gemini API:", (error as Error).message);
-      return false;
+      // The caller asked for no answer, not for a failed one
+      if (error instanceof CancelledError) throw error;
+      log.error("Error calling LLM", { error: (error as Error).message });
+      return {
+        query,
+        success: false,
+        ambiguous: false,
+        interpretations: [],
+        attempts,
+        parser: "llm",
+        rewrites: [],
+        warnings: [],
+        error: (error as Error).message,
+      };
     }
   }
 
-  private createParsePrompt(query: string, variant: PromptVariant): string {
+  /**
+   * Response schema of a criteria group: each field as a list of its values
+   * (enumerated for unordered fields), "exclude" with the same fields,
+   * "ranges" for ordered fields and, at the top level, "anyOf"
+   */
+  private groupSchema(alternatives: boolean): JSONSchema {
+    const valueLists: Record<string, JSONSchema> = {};
+    const ranges: Record<string, JSONSchema> = {};
+
+    for (const [key, field] of schemaFields(this.schema)) {
+      valueLists[key] = {
+        type: "array",
+        description: field.label,
+        items: field.values
+          ? { type: "string", enum: field.values }
+          : { type: "string", description: field.scale?.describe() },
+      };
+      if (field.scale) {
+        ranges[key] = {
+          type: "object",
+          properties: { min: { type: "string" }, max: { type: "string" } },
+        };
+      }
+    }
+
+    return {
+      type: "object",
+      properties: {
+        ...valueLists,
+        exclude: { type: "object", properties: valueLists },
+        ...(Object.keys(ranges).length > 0
+          ? { ranges: { type: "object", properties: ranges } }
+          : {}),
+        ...(alternatives
+          ? { anyOf: { type: "array", items: this.groupSchema(false) } }
+          : {}),
+      },
+    };
+  }
+
+  /**
+   * A criteria group, or the ambiguous form with its interpretations
+   */
+  private parseResponseSchema(): JSONSchema {
+    const group = this.groupSchema(true);
+    return {
+      type: "object",
+      properties: {
+        ...group.properties,
+        ambiguous: { type: "boolean" },
+        interpretations: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { label: { type: "string" }, criteria: group },
+            required: ["label", "criteria"],
+          },
+        },
+      },
+    };
+  }
+
+  private diffResponseSchema(): JSONSchema {
+    const group = this.groupSchema(false);
+    return {
+      type: "object",
+      properties: { add: group, remove: group, replace: group },
+    };
+  }
+
+  private errorLines(error: string | undefined): string[] {
+    if (!error) return [];
+    const [summary, ...details] = error.split("\n- ");
+    return details.length > 0 ? details : [summary];
+  }
+
+  private createParsePrompt(
+    query: string,
+    variant: PromptVariant,
+    profile?: ClimberProfile
+  ): string {
     if (variant === "basic") {
-      return this.createBasicPrompt(query);
+      return this.createBasicPrompt(query, profile);
     } else if (variant === "detailed") {
-      return this.createDetailedPrompt(query);
+      return this.createDetailedPrompt(query, profile);
     } else {
-      return this.createConstrainedPrompt(query);
+      return this.createConstrainedPrompt(query, profile);
     }
   }
 
@@ -81,35 +937,39 @@ export class AIFilter {
    * PROMPT VARIANT 1: Basic (Original)
    * Simple prompt with minimal guidance
    */
-  private createBasicPrompt(query: string): string {
-    return `
-You are a helpful AI assistant that understands climbing terminology and converts natural language queries into structured filter criteria for climbing routes.
+  private createBasicPrompt(query: string, profile?: ClimberProfile): string {
+    const { domain, itemNamePlural } = this.schema;
+    const samples = this.promptSamples();
+    const profileSection = profile
+      ? `\nCLIMBER PROFILE:\n${describeProfile(profile, this.profileSpan())}\n`
+      : "";
+    const rangeRules = samples.range
+      ? `
+- If query mentions difficulty, map to a ${samples.range.key} range
+- For open or long ${samples.range.key} ranges ("${samples.range.min}+", "${samples.range.min} to ${samples.range.max}"), use "ranges": ${samples.range.open} instead of listing values`
+      : "";
 
-CLIMBING TERMINOLOGY:
-- Grades: V0-V17 (bouldering grades)
-- Angles: slab (< 90°), vertical (90°), overhang (> 90°), roof (horizontal)
-- Hold Types: crimp, jug, sloper, pinch, pocket
-- Move Types: static, dynamic, compression, tension, coordination
-- Training Goals: finger strength, power, endurance, technique, flexibility
+    return `
+You are a helpful AI assistant that understands ${domain} terminology and converts natural language queries into structured filter criteria for ${itemNamePlural}.
 
+${domain.toUpperCase()} TERMINOLOGY:
+${this.describeFields(true)}
+${profileSection}
 USER QUERY:
-"${query}"
+${delimitUserInput(query)}
+${untrustedInputRule()}
 
 Convert this query into structured filter criteria. Return ONLY a JSON object with this structure:
-{
-  "grade": ["V1", "V2"],
-  "angle": ["overhang"],
-  "holdTypes": ["crimp", "pinch"],
-  "moveTypes": ["static"],
-  "goals": ["finger strength"]
-}
+${samples.group}
 
 RULES:
 - Only include fields that are relevant to the query
 - Use arrays even for single values
-- Use standard climbing terminology
-- If query mentions difficulty, map to grade range
-- If query is ambiguous, make reasonable assumptions
+- Put anything the query rules out ("no X", "not X") under "exclude", never in the positive fields
+- For alternatives ("either X or Y"), add "anyOf": [{...}, {...}] where each entry is a group of fields that must hold together
+- Use standard ${domain} terminology${rangeRules}
+- If query is ambiguous, make reasonable assumptions; only if it has clearly different readings (e.g. "good for training"), return instead:
+  {"ambiguous": true, "interpretations": [{"label": "short label", "criteria": {...}}, ...]} with 2 or 3 interpretations
 
 Return ONLY the JSON object, no additional text.`;
   }
@@ -118,47 +978,52 @@ Return ONLY the JSON object, no additional text.`;
    * PROMPT VARIANT 2: Detailed
    * Provides explicit examples and handling for ambiguous cases
    */
-  private createDetailedPrompt(query: string): string {
+  private createDetailedPrompt(
+    query: string,
+    profile?: ClimberProfile
+  ): string {
+    const { itemName, hints = [], examples = [] } = this.schema;
+    const samples = this.promptSamples();
+    const guide = [
+      ...this.difficultyGuide(profile),
+      ...hints.map((hint) => `- ${hint}`),
+    ].join("\n");
+    const rangeRules = samples.range
+      ? `
+- Ranges like "${samples.range.min} to ${samples.range.max}" → "ranges": ${samples.range.closed}
+- Open ranges like "${samples.range.min}+" → "ranges": ${samples.range.open}`
+      : "";
+    const exampleSection =
+      examples.length > 0
+        ? `\nEXAMPLES:\n${examples
+            .map(
+              (example) =>
+                `Query: "${example.query}"\nOutput: ${JSON.stringify(
+                  example.output
+                )}`
+            )
+            .join("\n\n")}\n`
+        : "";
+
     return `
-You are an expert climbing route recommender. Convert natural language queries into structured filter criteria.
+You are an expert ${itemName} recommender. Convert natural language queries into structured filter criteria.
 
 TERMINOLOGY REFERENCE:
-- Grades: V0-V2 (beginner), V3-V5 (intermediate), V6-V8 (advanced), V9+ (expert)
-- Angles: slab, vertical, overhang, roof
-- Hold Types: crimp (small edges), jug (large holds), sloper (rounded), pinch, pocket
-- Move Types: static (controlled), dynamic (powerful), compression, tension, coordination
-- Training Goals: finger strength, power, endurance, technique, flexibility
+${this.describeFields(true)}
 
 HANDLING AMBIGUITY:
-- "challenging" → V5-V7 range
-- "easy" or "beginner" → V0-V2
-- "intermediate" → V3-V5
-- "powerful" → goals: ["power"], moveTypes: ["dynamic"]
-- "technical" → goals: ["technique"], moveTypes: ["static"]
-- "training" → include relevant goals based on context
-- Ranges like "V4 to V6" → include all grades in between
+${guide}
+- Genuinely ambiguous queries with no context → offer 2-3 readings:
+  {"ambiguous": true, "interpretations": ${samples.interpretations}}${rangeRules}
+- Exclusions like "no X", "without X", "not X" → "exclude": ${samples.exclude}
+- Alternatives like "either ... or ..." → "anyOf": [{group 1}, {group 2}], each group uses the same fields
 
 USER QUERY:
-"${query}"
-
-EXAMPLES:
-Query: "challenging crimpy routes"
-Output: {"grade": ["V5", "V6", "V7"], "holdTypes": ["crimp"]}
-
-Query: "beginner friendly with big holds"
-Output: {"grade": ["V0", "V1", "V2"], "holdTypes": ["jug"]}
-
-Query: "powerful overhang climbs"
-Output: {"angle": ["overhang"], "goals": ["power"], "moveTypes": ["dynamic"]}
-
+${delimitUserInput(query)}
+${untrustedInputRule()}
+${exampleSection}
 Now convert the user query into JSON format:
-{
-  "grade": [...],
-  "angle": [...],
-  "holdTypes": [...],
-  "moveTypes": [...],
-  "goals": [...]
-}
+${samples.group}
 
 CRITICAL: Return ONLY the JSON object with fields relevant to the query. Omit empty fields.`;
   }
@@ -167,296 +1032,1449 @@ CRITICAL: Return ONLY the JSON object with fields relevant to the query. Omit em
    * PROMPT VARIANT 3: Constrained
    * Adds validation and forces the AI to stay within bounds
    */
-  private createConstrainedPrompt(query: string): string {
+  private createConstrainedPrompt(
+    query: string,
+    profile?: ClimberProfile
+  ): string {
+    const { itemName, hints = [] } = this.schema;
+    const samples = this.promptSamples();
+    const guide = [
+      ...this.difficultyGuide(profile),
+      ...hints.map((hint) => `- ${hint}`),
+    ].join("\n");
+    const rules = [
+      "Use ONLY values from the valid lists above",
+      ...(samples.range
+        ? [
+            `For ${samples.range.key} ranges, use "ranges" with min and/or max (e.g., ${samples.range.min}-${samples.range.max} = ${samples.range.closed}, ${samples.range.min}+ = ${samples.range.open})`,
+          ]
+        : []),
+      "Convert colloquial terms using the interpretation guide",
+      `If query is too vague, use most common interpretation; if 2-3 readings are equally likely, return ONLY {"ambiguous": true, "interpretations": [{"label": "...", "criteria": {...}}]}`,
+      "Omit fields that cannot be determined from query",
+      "NEVER include fields with empty arrays",
+      `Excluded values go ONLY under "exclude", using the same field names and valid values`,
+      `Alternatives go ONLY under "anyOf" as an array of 2+ groups; fields common to every alternative stay at the top level`,
+    ];
+
     return `
-You are a precise climbing route filter assistant. Your task is to convert queries into VALID, SPECIFIC filter criteria.
+You are a precise ${itemName} filter assistant. Your task is to convert queries into VALID, SPECIFIC filter criteria.
 
 VALID VALUES (use ONLY these):
-Grades: V0, V1, V2, V3, V4, V5, V6, V7, V8, V9, V10, V11, V12, V13, V14, V15, V16, V17
-Angles: slab, vertical, overhang, roof
-HoldTypes: crimp, jug, sloper, pinch, pocket
-MoveTypes: static, dynamic, compression, tension, coordination
-Goals: finger strength, power, endurance, technique, flexibility
+${this.describeFields(false)}
 
 INTERPRETATION GUIDE:
 Subjective terms must map to concrete values:
-- "easy/beginner/warmup" = V0,V1,V2
-- "intermediate/moderate" = V3,V4,V5
-- "hard/challenging/difficult" = V5,V6,V7
-- "advanced/very hard" = V7,V8,V9
-- "expert/extreme" = V10+
-- "powerful/dynamic" = goals:power + moveTypes:dynamic
-- "technical/precise" = goals:technique + moveTypes:static
-- "small holds" = crimp,pinch,pocket
-- "big holds" = jug
-- "juggy" = jug
-- "crimpy" = crimp
-
-USER QUERY: "${query}"
+${guide}
+- "no X/without X/not X/avoid X" = exclude X (e.g. "exclude": ${samples.exclude})
+- "either A or B" = anyOf with one group for A and one for B
+
+USER QUERY: ${delimitUserInput(query)}
+${untrustedInputRule()}
 
 VALIDATION RULES:
-1. Use ONLY values from the valid lists above
-2. For grade ranges, list each grade explicitly (e.g., V4-V6 = ["V4","V5","V6"])
-3. Convert colloquial terms using the interpretation guide
-4. If query is too vague, use most common interpretation
-5. Omit fields that cannot be determined from query
-6. NEVER include fields with empty arrays
+${rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n")}
 
 OUTPUT FORMAT (JSON only, no explanation):
-{
-  "grade": ["V4", "V5"],
-  "angle": ["overhang"],
-  "holdTypes": ["crimp"],
-  "moveTypes": ["static"],
-  "goals": ["finger strength"]
-}
+${samples.fullGroup}
 
 Generate the JSON now:`;
   }
 
-  private parseAndApplyCriteria(responseText: string, filter: Filter): boolean {
-    try {
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("No JSON found in response");
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      console.log("Applying parsed criteria...");
-
-      // Run validators before applying criteria
-      this.validateLLMOutput(parsed);
-
-      for (const [key, values] of Object.entries(parsed)) {
-        if (Array.isArray(values) && values.length > 0) {
-          this.addCriteria(filter, key, new Set(values));
-          console.log(`Added criteria: ${key} = [${values.join(", ")}]`);
-        }
-      }
+  /**
+   * One prompt line per schema field with its allowed values, e.g.
+   * "- Hold Types (holdTypes): crimp (small edges), jug (large holds), ..."
+   */
+  private describeFields(withDescriptions: boolean): string {
+    return schemaFields(this.schema)
+      .map(([key, field]) => {
+        const values = field.scale
+          ? field.scale.describe()
+          : (field.values ?? [])
+              .map((value) => {
+                const description = field.valueDescriptions?.[value];
+                return withDescriptions && description
+                  ? `${value} (${description})`
+                  : value;
+              })
+              .join(", ");
+        const kind =
+          field.kind === "single" ? ` [one per ${this.schema.itemName}]` : "";
+        return `- ${field.label} (${key})${kind}: ${values}`;
+      })
+      .join("\n");
+  }
 
-      return true;
-    } catch (error) {
-      console.error("Error parsing LLM response:", (error as Error).message);
-      return false;
+  /**
+   * Prompt lines mapping relative difficulty to values: the climber's own
+   * bounds when there is a profile, the schema's generic hints otherwise
+   */
+  private difficultyGuide(profile?: ClimberProfile): string[] {
+    if (profile) {
+      return [
+        `Difficulty is relative to this climber:\n${describeProfile(profile, this.profileSpan())}`,
+      ];
     }
+    return (this.schema.difficultyHints ?? []).map((hint) => `- ${hint}`);
   }
 
   /**
-   * VALIDATOR: Check LLM output for common issues
-   * Validates field names, field values, and prevents hallucinations
+   * JSON snippets for prompt examples, built from the schema's own fields
+   * and values so every example is valid output
    */
-  private validateLLMOutput(parsed: any): void {
-    const validationErrors: string[] = [];
+  private promptSamples() {
+    const fields = schemaFields(this.schema);
+    const sampleValues = (field: FieldSchema) =>
+      field.values ?? field.scale?.examples ?? [];
 
-    // Define valid values for each field
-    const VALID_FIELDS = new Set([
-      "grade",
-      "angle",
-      "holdTypes",
-      "moveTypes",
-      "goals",
-    ]);
-    const VALID_GRADES = new Set([
-      "V0",
-      "V1",
-      "V2",
-      "V3",
-      "V4",
-      "V5",
-      "V6",
-      "V7",
-      "V8",
-      "V9",
-      "V10",
-      "V11",
-      "V12",
-      "V13",
-      "V14",
-      "V15",
-      "V16",
-      "V17",
-    ]);
-    const VALID_ANGLES = new Set(["slab", "vertical", "overhang", "roof"]);
-    const VALID_HOLD_TYPES = new Set([
-      "crimp",
-      "jug",
-      "sloper",
-      "pinch",
-      "pocket",
-    ]);
-    const VALID_MOVE_TYPES = new Set([
-      "static",
-      "dynamic",
-      "compression",
-      "tension",
-      "coordination",
-    ]);
-    const VALID_GOALS = new Set([
-      "finger strength",
-      "power",
-      "endurance",
-      "technique",
-      "flexibility",
-    ]);
-
-    // VALIDATOR 1
-    for (const key of Object.keys(parsed)) {
-      if (!VALID_FIELDS.has(key)) {
-        validationErrors.push(
-          `Invalid field "${key}". LLM hallucinated a field that doesn't exist in ClimbingRoute schema. Valid fields: ${Array.from(
-            VALID_FIELDS
-          ).join(", ")}`
-        );
-      }
+    const group: Record<string, unknown> = {};
+    for (const [key, field] of fields) {
+      const values = sampleValues(field);
+      group[key] = field.kind === "single" ? [values[0]] : values.slice(0, 2);
     }
 
-    // VALIDATOR 2
-    for (const [key, values] of Object.entries(parsed)) {
-      if (!Array.isArray(values)) {
-        validationErrors.push(
-          `Field "${key}" must be an array, but got ${typeof values}`
-        );
-        continue;
-      }
+    // Prefer a multi-valued field for exclusions and alternatives
+    const [choiceKey, choiceField] =
+      fields.find(([, f]) => f.values && f.kind === "multi") ??
+      fields.find(([, f]) => f.values) ??
+      fields[0];
+    const choices = sampleValues(choiceField);
+    const exclude = { [choiceKey]: [choices[choices.length - 1]] };
+    const anyOf = [
+      { [choiceKey]: [choices[0]] },
+      { [choiceKey]: [choices[1]] },
+    ];
 
-      for (const value of values) {
-        if (typeof value !== "string") {
-          validationErrors.push(
-            `All values in "${key}" must be strings, but got ${typeof value}: ${value}`
-          );
-          continue;
-        }
+    const ordered = fields.find(([, f]) => f.scale);
+    const range = ordered && {
+      key: ordered[0],
+      min: ordered[1].scale!.examples[0],
+      max: ordered[1].scale!.examples[1],
+      open: JSON.stringify({
+        [ordered[0]]: { min: ordered[1].scale!.examples[0] },
+      }),
+      closed: JSON.stringify({
+        [ordered[0]]: {
+          min: ordered[1].scale!.examples[0],
+          max: ordered[1].scale!.examples[1],
+        },
+      }),
+    };
 
-        let isValid = false;
-        let validValues: Set<string> | null = null;
-
-        switch (key) {
-          case "grade":
-            isValid = VALID_GRADES.has(value);
-            validValues = VALID_GRADES;
-            break;
-          case "angle":
-            isValid = VALID_ANGLES.has(value);
-            validValues = VALID_ANGLES;
-            break;
-          case "holdTypes":
-            isValid = VALID_HOLD_TYPES.has(value);
-            validValues = VALID_HOLD_TYPES;
-            break;
-          case "moveTypes":
-            isValid = VALID_MOVE_TYPES.has(value);
-            validValues = VALID_MOVE_TYPES;
-            break;
-          case "goals":
-            isValid = VALID_GOALS.has(value);
-            validValues = VALID_GOALS;
-            break;
-          default:
-            isValid = true;
-        }
+    const formatGroup = (value: Record<string, unknown>) =>
+      `{\n${Object.entries(value)
+        .map(([key, v]) => `  "${key}": ${JSON.stringify(v)}`)
+        .join(",\n")}\n}`;
 
-        if (!isValid && validValues) {
-          validationErrors.push(
-            `Invalid value "${value}" in field "${key}". Valid values: ${Array.from(
-              validValues
-            ).join(", ")}`
-          );
-        }
-      }
-    }
+    return {
+      group: formatGroup({ ...group, exclude }),
+      fullGroup: formatGroup({
+        ...group,
+        exclude,
+        ...(range ? { ranges: JSON.parse(range.closed) } : {}),
+        anyOf,
+      }),
+      exclude: JSON.stringify(exclude),
+      interpretations: JSON.stringify(
+        anyOf.map((criteria) => ({
+          label: String(Object.values(criteria)[0][0]),
+          criteria,
+        }))
+      ),
+      range,
+      diff: formatGroup({
+        add: { [choiceKey]: [choices[1]] },
+        remove: {
+          [choiceKey]: [choices[0]],
+          ...(range ? { ranges: { [range.key]: {} } } : {}),
+        },
+        replace: range
+          ? { ranges: JSON.parse(range.closed) }
+          : { [choiceKey]: [choices[1]] },
+      }),
+    };
+  }
 
-    // VALIDATOR 3
-    if (parsed.grade && Array.isArray(parsed.grade)) {
-      const grades = parsed.grade
-        .map((g: string) => {
-          const match = g.match(/V(\d+)/);
-          return match ? parseInt(match[1]) : -1;
-        })
-        .filter((n: number) => n >= 0);
+  /**
+   * REPAIR PROMPT
+   * The original prompt again, plus the rejected answer and why it failed
+   */
+  private createRepairPrompt(
+    prompt: string,
+    response: string,
+    error: string | undefined
+  ): string {
+    return `${prompt}
 
-      if (grades.length > 1) {
-        const minGrade = Math.min(...grades);
-        const maxGrade = Math.max(...grades);
-        const range = maxGrade - minGrade;
+YOUR PREVIOUS RESPONSE:
+${response}
 
-        // Check if grade range is suspiciously large (> 5 grades apart suggests confusion)
-        if (range > 5) {
-          validationErrors.push(
-            `Grade range is large (V${minGrade} to V${maxGrade}, span of ${range}). LLM may have misunderstood the difficulty constraint.`
-          );
-        }
-      }
-    }
+IT WAS REJECTED FOR THESE REASONS:
+${error ?? "The response could not be parsed."}
 
-    if (validationErrors.length > 0) {
+Fix every problem listed above and return ONLY the corrected JSON object, no additional text.`;
+  }
+
+  /**
+   * REFINE PROMPT
+   * Shows the current filter and query history and asks for a diff
+   */
+  private createRefinePrompt(
+    filter: Filter,
+    query: string,
+    profile?: ClimberProfile
+  ): string {
+    const history =
+      filter.history.length > 0
+        ? filter.history
+            .map((q, i) => `${i + 1}. ${delimitUserInput(q)}`)
+            .join("\n")
+        : "(none)";
+    const expression = filter.expression
+      ? `\nCURRENT EXPRESSION (kept unless you replace "anyOf"):\n${this.formatExpression(
+          filter.expression
+        )}\n`
+      : "";
+    const profileSection = profile
+      ? `\nCLIMBER PROFILE:\n${describeProfile(profile, this.profileSpan())}\n`
+      : "";
+    const samples = this.promptSamples();
+    const { domain, itemName, difficultyField } = this.schema;
+    const rangeRules = samples.range
+      ? `; to drop a ${samples.range.key} range use "remove": {"ranges": {"${samples.range.key}": {}}}`
+      : "";
+    const difficultyRule = difficultyField
+      ? `\n- "make it harder/easier" → "replace" the ${difficultyField} or ${difficultyField} range relative to the current one`
+      : "";
+
+    return `
+You are a ${itemName} filter assistant. The user already has a filter and is refining it with a follow-up request.
+
+${domain.toUpperCase()} TERMINOLOGY:
+${this.describeFields(false)}
+${profileSection}
+EARLIER QUERIES:
+${history}
+
+CURRENT FILTER:
+${JSON.stringify(this.filterToGroup(filter))}
+${expression}
+FOLLOW-UP REQUEST:
+${delimitUserInput(query)}
+${untrustedInputRule()}
+
+Return ONLY a JSON diff against the current filter:
+${samples.diff}
+
+RULES:
+- "add" adds values to a field (or to "exclude"); "remove" takes values out; "replace" overwrites a field entirely
+- To drop a whole field, put it in "remove" with an empty array${rangeRules}${difficultyRule}
+- "drop the X" / "no more X" → "remove" X, and "add" it under "exclude" only if the user rules it out
+- Only include the operations you need; never restate unchanged criteria
+
+Return ONLY the JSON object, no additional text.`;
+  }
+
+  private parseAndApplyCriteria(
+    responseText: string,
+    query: string,
+    profile: ClimberProfile | undefined,
+    apply: (criteria: Record<string, unknown>) => void
+  ): ParseResult {
+    let rewrites: NormalizationRewrite[] = [];
+    let warnings: RuleViolation[] = [];
+
+    try {
+      const parsed = parseJSONObject(responseText);
+      rewrites = this.normalizeOutput(parsed);
+      if (parsed?.ambiguous === false) {
+        delete parsed.ambiguous;
+      }
+
+      if (parsed?.ambiguous === true) {
+        if (profile && Array.isArray(parsed.interpretations)) {
+          for (const interpretation of parsed.interpretations) {
+            this.calibrateToProfile(interpretation?.criteria, query, profile);
+          }
+        }
+        warnings = this.validateLLMOutput(parsed);
+
+        this.logger.info(
+          `Query is ambiguous; ${parsed.interpretations.length} interpretations offered`,
+          { query }
+        );
+        return {
+          query,
+          success: false,
+          ambiguous: true,
+          interpretations: parsed.interpretations,
+          attempts: [],
+          parser: "llm",
+          rewrites,
+          warnings,
+        };
+      }
+
+      this.logger.debug("Applying parsed criteria...");
+
+      if (profile) {
+        this.calibrateToProfile(parsed, query, profile);
+      }
+
+      // Run validators before applying criteria
+      warnings = this.validateLLMOutput(parsed);
+      apply(parsed);
+
+      return {
+        query,
+        success: true,
+        ambiguous: false,
+        interpretations: [],
+        attempts: [],
+        parser: "llm",
+        rewrites,
+        warnings,
+        criteria: parsed,
+      };
+    } catch (error) {
+      this.logger.warn("Error parsing LLM response", {
+        error: (error as Error).message,
+      });
+      return {
+        query,
+        success: false,
+        ambiguous: false,
+        interpretations: [],
+        attempts: [],
+        parser: "llm",
+        rewrites,
+        warnings,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  private parseAndApplyDiff(
+    responseText: string,
+    filter: Filter,
+    query: string
+  ): ParseResult {
+    let rewrites: NormalizationRewrite[] = [];
+    let warnings: RuleViolation[] = [];
+
+    try {
+      const diff = parseJSONObject(responseText);
+      rewrites = this.normalizeOutput(diff);
+
+      this.logger.debug("Applying criteria diff...", {
+        filterId: filter.filterId,
+      });
+
+      // Validate the diff itself, then the filter it would produce
+      this.validateDiff(diff);
+      const refined = this.applyDiff(this.filterToGroup(filter), diff);
+      warnings = this.validateLLMOutput(refined);
+
+      const { expression, naturalQuery, history } = filter;
+      this.clearFilter(filter);
+      filter.naturalQuery = naturalQuery;
+      filter.history = history;
+      if (expression && !Array.isArray(refined.anyOf)) {
+        this.setExpression(filter, expression);
+      }
+      this.applyCriteria(filter, refined);
+
+      return {
+        query,
+        success: true,
+        ambiguous: false,
+        interpretations: [],
+        attempts: [],
+        parser: "llm",
+        rewrites,
+        warnings,
+      };
+    } catch (error) {
+      this.logger.warn("Error parsing LLM response", {
+        error: (error as Error).message,
+      });
+      return {
+        query,
+        success: false,
+        ambiguous: false,
+        interpretations: [],
+        attempts: [],
+        parser: "llm",
+        rewrites,
+        warnings,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * The filter's criteria, exclusions and ranges in the JSON shape the LLM
+   * reads and writes. The boolean expression has no such form and is left out.
+   */
+  private filterToGroup(filter: Filter): Record<string, any> {
+    const group: Record<string, any> = {};
+
+    for (const [key, values] of filter.criteria.entries()) {
+      group[key] = Array.from(values);
+    }
+    if (filter.exclusions.size > 0) {
+      group.exclude = {};
+      for (const [key, values] of filter.exclusions.entries()) {
+        group.exclude[key] = Array.from(values);
+      }
+    }
+    if (filter.ranges.size > 0) {
+      group.ranges = Object.fromEntries(filter.ranges.entries());
+    }
+
+    return group;
+  }
+
+  private applyDiff(
+    group: Record<string, any>,
+    diff: any
+  ): Record<string, any> {
+    const refined = {
+      ...group,
+      exclude: { ...group.exclude },
+      ranges: { ...group.ranges },
+    };
+    const { add = {}, remove = {}, replace = {} } = diff;
+
+    const merge = (
+      target: Record<string, any>,
+      fields: Record<string, any>
+    ) => {
+      for (const [key, values] of Object.entries(fields)) {
+        target[key] = Array.from(new Set([...(target[key] ?? []), ...values]));
+      }
+    };
+    const subtract = (
+      target: Record<string, any>,
+      fields: Record<string, any>
+    ) => {
+      for (const [key, values] of Object.entries(fields)) {
+        const kept = (target[key] ?? []).filter(
+          (v: string) => !(values as string[]).includes(v)
+        );
+        if (values.length === 0 || kept.length === 0) {
+          delete target[key];
+        } else {
+          target[key] = kept;
+        }
+      }
+    };
+
+    {
+      const { exclude, ranges, ...fields } = remove;
+      subtract(refined, fields);
+      subtract(refined.exclude, exclude ?? {});
+      for (const key of Object.keys(ranges ?? {})) delete refined.ranges[key];
+    }
+    {
+      const { exclude, ranges, ...fields } = add;
+      merge(refined, fields);
+      merge(refined.exclude, exclude ?? {});
+      Object.assign(refined.ranges, ranges);
+    }
+    {
+      const { exclude, ranges, ...fields } = replace;
+      Object.assign(refined, fields);
+      Object.assign(refined.exclude, exclude);
+      Object.assign(refined.ranges, ranges);
+    }
+
+    if (Object.keys(refined.exclude).length === 0) delete refined.exclude;
+    if (Object.keys(refined.ranges).length === 0) delete refined.ranges;
+    return refined;
+  }
+
+  private applyCriteria(
+    filter: Filter,
+    criteria: Record<string, unknown>
+  ): void {
+    const { exclude, ranges, anyOf, ...fields } = criteria as any;
+
+    for (const [key, values] of Object.entries(fields)) {
+      if (Array.isArray(values) && values.length > 0) {
+        this.addCriteria(filter, key, new Set(values));
+        this.logger.debug(`Added criteria: ${key} = [${values.join(", ")}]`, {
+          filterId: filter.filterId,
+        });
+      }
+    }
+
+    for (const [key, values] of Object.entries(exclude ?? {})) {
+      if (Array.isArray(values) && values.length > 0) {
+        this.addExclusion(filter, key, new Set(values));
+        this.logger.debug(`Added exclusion: ${key} = [${values.join(", ")}]`, {
+          filterId: filter.filterId,
+        });
+      }
+    }
+
+    for (const [key, range] of Object.entries(ranges ?? {})) {
+      this.addRange(filter, key, range as ValueRange);
+      this.logger.debug(
+        `Added range: ${key} = ${this.formatRange(range as ValueRange)}`,
+        { filterId: filter.filterId }
+      );
+    }
+
+    if (Array.isArray(anyOf)) {
+      const expression = this.groupToExpression({ anyOf });
+      this.setExpression(filter, expression);
+      this.logger.debug(
+        `Added expression: ${this.formatExpression(expression)}`,
+        { filterId: filter.filterId }
+      );
+    }
+  }
+
+  /**
+   * Rewrite near-miss values (plurals, case, slang, typos) to canonical ones
+   * before validation, logging each rewrite
+   */
+  private normalizeOutput(parsed: unknown): NormalizationRewrite[] {
+    const rewrites = this.normalizer.normalize(parsed);
+
+    for (const rewrite of rewrites) {
+      this.logger.info(
+        `Normalized ${rewrite.path}: "${rewrite.from}" → "${rewrite.to}" (${rewrite.reason})`
+      );
+    }
+    return rewrites;
+  }
+
+  /**
+   * Deterministic pass over the LLM output: relative difficulty in the query
+   * is resolved against the climber profile, replacing whatever values the
+   * LLM picked, and "my weaknesses" / "my style" pull in profile values
+   */
+  private calibrateToProfile(
+    parsed: any,
+    query: string,
+    profile: ClimberProfile
+  ): void {
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      return;
+    }
+
+    const field = this.schema.difficultyField;
+    const term = findDifficultyTerm(query);
+    if (term && field) {
+      const bounds = difficultyBounds(profile, this.profileSpan())[term];
+      delete parsed[field];
+      parsed.ranges = { ...(parsed.ranges ?? {}), [field]: bounds };
+      this.logger.info(
+        `Calibrated "${term}" to climber profile: ${field} ${this.formatRange(
+          bounds
+        )}`
+      );
+    }
+
+    if (/\bweakness(es)?\b/i.test(query)) {
+      this.addProfileValues(parsed, profile.weaknesses ?? []);
+    }
+    if (/\b(my style|preferred|favou?rite)\b/i.test(query)) {
+      this.addProfileValues(parsed, profile.preferredStyles ?? []);
+    }
+  }
+
+  private addProfileValues(parsed: any, values: string[]): void {
+    for (const value of values) {
+      const key = Object.keys(this.validValues).find((k) =>
+        this.validValues[k].has(value)
+      );
+      if (!key) {
+        this.logger.warn(
+          `Skipping profile value "${value}": not a known field value`
+        );
+        continue;
+      }
+
+      const current = Array.isArray(parsed[key]) ? parsed[key] : [];
+      if (!current.includes(value)) {
+        parsed[key] = [...current, value];
+        this.logger.debug(`Added from climber profile: ${key} += ${value}`);
+      }
+    }
+  }
+
+  /**
+   * VALIDATOR: Check LLM output for common issues
+   * Validates field names, field values, and prevents hallucinations, then
+   * runs the criteria rules. Rule errors fail validation; rule warnings are
+   * returned.
+   */
+  private validateLLMOutput(parsed: any): RuleViolation[] {
+    const validationErrors: string[] = [];
+
+    if (parsed?.ambiguous === true) {
+      this.validateInterpretations(parsed, validationErrors);
+    } else {
+      this.validateGroup(parsed, "", validationErrors);
+    }
+
+    // Rules assume well-formed criteria, so only run them on valid output
+    const violations =
+      validationErrors.length > 0
+        ? []
+        : parsed?.ambiguous === true
+          ? parsed.interpretations.flatMap((interpretation: any, i: number) =>
+              this.ruleEngine.check(
+                interpretation.criteria,
+                `interpretations[${i}].criteria`
+              )
+            )
+          : this.ruleEngine.check(parsed);
+
+    for (const violation of violations) {
+      const where = violation.path === "root" ? "" : `${violation.path}: `;
+      if (violation.severity === "error") {
+        validationErrors.push(`${where}${violation.message}`);
+      } else {
+        this.logger.warn(
+          `Warning (${violation.rule}): ${where}${violation.message}`,
+          { rule: violation.rule }
+        );
+      }
+    }
+
+    if (validationErrors.length > 0) {
       throw new Error(
         `LLM output validation failed:\n- ${validationErrors.join("\n- ")}`
       );
     }
+    return violations.filter((v: RuleViolation) => v.severity === "warning");
+  }
+
+  /**
+   * VALIDATOR: Check a refine diff before it is applied. "add" and "replace"
+   * are criteria groups; "remove" may also name ranges to drop with {}.
+   */
+  private validateDiff(diff: any): void {
+    const validationErrors: string[] = [];
+    const OPERATIONS = ["add", "remove", "replace"];
+
+    if (typeof diff !== "object" || diff === null || Array.isArray(diff)) {
+      throw new Error(
+        "LLM output validation failed:\n- Diff must be an object"
+      );
+    }
+
+    for (const key of Object.keys(diff)) {
+      if (!OPERATIONS.includes(key)) {
+        validationErrors.push(
+          `Invalid diff operation "${key}". Valid operations: ${OPERATIONS.join(", ")}`
+        );
+      }
+    }
+    if (!OPERATIONS.some((op) => op in diff)) {
+      validationErrors.push(
+        `Diff must contain at least one of: ${OPERATIONS.join(", ")}`
+      );
+    }
+
+    if (diff.add !== undefined)
+      this.validateGroup(diff.add, "add.", validationErrors);
+    if (diff.replace !== undefined) {
+      this.validateGroup(diff.replace, "replace.", validationErrors);
+    }
+    if (diff.remove !== undefined) {
+      const { ranges, ...fields } = diff.remove ?? {};
+      this.validateGroup(
+        diff.remove === null ? null : fields,
+        "remove.",
+        validationErrors
+      );
+      for (const key of Object.keys(ranges ?? {})) {
+        if (!(key in this.orderedFields)) {
+          validationErrors.push(
+            `Field "remove.ranges.${key}" is not an ordered field. Ranges are allowed on: ${Object.keys(
+              this.orderedFields
+            ).join(", ")}`
+          );
+        }
+      }
+    }
+
+    if (validationErrors.length > 0) {
+      throw new Error(
+        `LLM output validation failed:\n- ${validationErrors.join("\n- ")}`
+      );
+    }
+  }
+
+  /**
+   * An ambiguous answer must offer 2-3 labeled interpretations, each a
+   * valid criteria group
+   */
+  private validateInterpretations(
+    parsed: any,
+    validationErrors: string[]
+  ): void {
+    const { ambiguous, interpretations, ...rest } = parsed;
+
+    for (const key of Object.keys(rest)) {
+      validationErrors.push(
+        `Invalid field "${key}". An ambiguous answer may only contain "ambiguous" and "interpretations"`
+      );
+    }
+
+    if (
+      !Array.isArray(interpretations) ||
+      interpretations.length < 2 ||
+      interpretations.length > 3
+    ) {
+      validationErrors.push(
+        `Field "interpretations" must be an array of 2 or 3 interpretations`
+      );
+      return;
+    }
+
+    interpretations.forEach((interpretation: any, index: number) => {
+      const path = `interpretations[${index}]`;
+
+      if (
+        typeof interpretation?.label !== "string" ||
+        interpretation.label.trim().length === 0
+      ) {
+        validationErrors.push(`Interpretation "${path}" needs a short label`);
+      }
+      this.validateGroup(
+        interpretation?.criteria,
+        `${path}.criteria.`,
+        validationErrors
+      );
+    });
+  }
+
+  /**
+   * Validate one criteria group: plain fields, an optional "exclude" object
+   * and optional nested "anyOf" groups. The path prefixes error messages so
+   * the offending group can be found, e.g. "anyOf[1].holdTypes".
+   */
+  private validateGroup(
+    group: any,
+    path: string,
+    validationErrors: string[]
+  ): void {
+    if (typeof group !== "object" || group === null || Array.isArray(group)) {
+      validationErrors.push(
+        `Criteria group "${path || "root"}" must be an object, but got ${
+          Array.isArray(group) ? "array" : typeof group
+        }`
+      );
+      return;
+    }
+
+    // Exclusions live under "exclude" and reuse the same field checks
+    const { exclude, ranges, anyOf, ...included } = group;
+    const fieldGroups: [string, Record<string, unknown>][] = [[path, included]];
+
+    if (exclude !== undefined) {
+      if (
+        typeof exclude !== "object" ||
+        exclude === null ||
+        Array.isArray(exclude)
+      ) {
+        validationErrors.push(
+          `Field "${path}exclude" must be an object mapping field names to arrays, but got ${
+            Array.isArray(exclude) ? "array" : typeof exclude
+          }`
+        );
+      } else {
+        fieldGroups.push([`${path}exclude.`, exclude]);
+      }
+    }
+
+    for (const [prefix, fields] of fieldGroups) {
+      // VALIDATOR 1
+      for (const key of Object.keys(fields)) {
+        if (!this.fieldSchema(key)) {
+          validationErrors.push(
+            `Invalid field "${prefix}${key}". LLM hallucinated a field that doesn't exist in the ${
+              this.schema.itemName
+            } schema. Valid fields: ${Object.keys(this.schema.fields).join(
+              ", "
+            )}`
+          );
+        }
+      }
+
+      // VALIDATOR 2
+      for (const [key, values] of Object.entries(fields)) {
+        if (!Array.isArray(values)) {
+          validationErrors.push(
+            `Field "${prefix}${key}" must be an array, but got ${typeof values}`
+          );
+          continue;
+        }
+
+        const validValues = this.validValues[key];
+        const scale = this.orderedFields[key];
+
+        for (const value of values) {
+          if (typeof value !== "string") {
+            validationErrors.push(
+              `All values in "${prefix}${key}" must be strings, but got ${typeof value}: ${value}`
+            );
+            continue;
+          }
+
+          if (scale && scale.position(value) === undefined) {
+            validationErrors.push(
+              `Invalid value "${value}" in field "${prefix}${key}". Valid values: ${scale.describe()}`
+            );
+          } else if (validValues && !validValues.has(value)) {
+            validationErrors.push(
+              `Invalid value "${value}" in field "${prefix}${key}". Valid values: ${Array.from(
+                validValues
+              ).join(", ")}`
+            );
+          }
+        }
+      }
+    }
+
+    // A value cannot be both required and excluded
+    if (fieldGroups.length > 1) {
+      for (const [key, excluded] of Object.entries(fieldGroups[1][1])) {
+        const wanted = included[key];
+        if (!Array.isArray(excluded) || !Array.isArray(wanted)) continue;
+
+        for (const value of excluded) {
+          if (wanted.includes(value)) {
+            validationErrors.push(
+              `Value "${value}" in field "${path}${key}" is both required and excluded. LLM contradicted itself.`
+            );
+          }
+        }
+      }
+    }
+
+    // Ranges must name an ordered field and use values on its scale
+    if (ranges !== undefined) {
+      if (
+        typeof ranges !== "object" ||
+        ranges === null ||
+        Array.isArray(ranges)
+      ) {
+        validationErrors.push(
+          `Field "${path}ranges" must be an object mapping field names to {min, max}`
+        );
+      } else {
+        for (const [key, range] of Object.entries(
+          ranges as Record<string, any>
+        )) {
+          const scale = this.orderedFields[key];
+          if (!scale) {
+            validationErrors.push(
+              `Field "${path}ranges.${key}" is not an ordered field. Ranges are allowed on: ${Object.keys(
+                this.orderedFields
+              ).join(", ")}`
+            );
+            continue;
+          }
+          if (
+            typeof range !== "object" ||
+            range === null ||
+            (range.min === undefined && range.max === undefined)
+          ) {
+            validationErrors.push(
+              `Range "${path}ranges.${key}" must be an object with "min" and/or "max"`
+            );
+            continue;
+          }
+
+          const bounds: Record<string, number | undefined> = {};
+          for (const bound of ["min", "max"] as const) {
+            if (range[bound] === undefined) continue;
+            bounds[bound] =
+              typeof range[bound] === "string"
+                ? scale.position(range[bound])
+                : undefined;
+            if (bounds[bound] === undefined) {
+              validationErrors.push(
+                `Invalid ${bound} "${range[bound]}" in range "${path}ranges.${key}". Valid values: ${scale.describe()}`
+              );
+            }
+          }
+
+          if (
+            bounds.min !== undefined &&
+            bounds.max !== undefined &&
+            bounds.min > bounds.max
+          ) {
+            validationErrors.push(
+              `Range "${path}ranges.${key}" has min "${range.min}" above max "${range.max}"`
+            );
+          }
+        }
+      }
+    }
+
+    // Alternatives: each entry of "anyOf" is itself a criteria group
+    if (anyOf !== undefined) {
+      if (!Array.isArray(anyOf) || anyOf.length < 2) {
+        validationErrors.push(
+          `Field "${path}anyOf" must be an array of at least two criteria groups`
+        );
+      } else {
+        anyOf.forEach((alternative, index) =>
+          this.validateGroup(
+            alternative,
+            `${path}anyOf[${index}].`,
+            validationErrors
+          )
+        );
+      }
+    }
   }
 
   addCriteria(filter: Filter, key: string, values: Set<string>): void {
     filter.criteria.set(key, values);
   }
 
-  search(filter: Filter, routes: ClimbingRoute[]): ClimbingRoute[] {
-    return routes.filter((route) => this.matchesFilter(route, filter));
+  addExclusion(filter: Filter, key: string, values: Set<string>): void {
+    filter.exclusions.set(key, values);
+  }
+
+  addRange(filter: Filter, key: string, range: ValueRange): void {
+    filter.ranges.set(key, range);
+  }
+
+  setExpression(filter: Filter, expression: FilterExpression): void {
+    filter.expression = expression;
   }
 
-  private matchesFilter(route: ClimbingRoute, filter: Filter): boolean {
+  /**
+   * Convert a validated LLM criteria group into an expression:
+   * fields are ANDed, exclusions negated and "anyOf" alternatives ORed
+   */
+  private groupToExpression(group: any): FilterExpression {
+    const { exclude, ranges, anyOf, ...fields } = group;
+    const children: FilterExpression[] = [];
+
+    for (const [key, values] of Object.entries(fields)) {
+      if (Array.isArray(values) && values.length > 0) {
+        children.push({ type: "criterion", key, values: new Set(values) });
+      }
+    }
+
+    for (const [key, values] of Object.entries(exclude ?? {})) {
+      if (Array.isArray(values) && values.length > 0) {
+        children.push({
+          type: "not",
+          child: { type: "criterion", key, values: new Set(values) },
+        });
+      }
+    }
+
+    for (const [key, range] of Object.entries(ranges ?? {})) {
+      children.push({ type: "range", key, range: range as ValueRange });
+    }
+
+    if (Array.isArray(anyOf)) {
+      children.push({
+        type: "or",
+        children: anyOf.map((alternative: any) =>
+          this.groupToExpression(alternative)
+        ),
+      });
+    }
+
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  search(filter: Filter, items: Item[]): Item[];
+  search(
+    filter: Filter,
+    items: Item[],
+    options: RankedSearchOptions
+  ): RankedItem<Item>[];
+  search(
+    filter: Filter,
+    items: Item[],
+    options: ExplainSearchOptions
+  ): ItemExplanation<Item>[];
+  search(
+    filter: Filter,
+    items: Item[],
+    options?: RankedSearchOptions | ExplainSearchOptions
+  ): Item[] | RankedItem<Item>[] | ItemExplanation<Item>[] {
+    if (options && "ranked" in options) {
+      return this.rankItems(filter, items, options.weights ?? {});
+    }
+    if (options && "explain" in options) {
+      return items.map((item) => this.explainItem(item, filter));
+    }
+    return items.filter((item) => this.matchesFilter(item, filter));
+  }
+
+  /**
+   * Explain why the named item is (or is not) in the search results.
+   * Returns undefined when no item has that name.
+   */
+  whyNot(
+    filter: Filter,
+    items: Item[],
+    name: string
+  ): ItemExplanation<Item> | undefined {
+    const item = items.find(
+      (i) => this.schema.nameOf(i).toLowerCase() === name.trim().toLowerCase()
+    );
+    return item ? this.explainItem(item, filter) : undefined;
+  }
+
+  private explainItem(item: Item, filter: Filter): ItemExplanation<Item> {
+    const explanations: CriterionExplanation[] = [];
+
     for (const [key, values] of filter.criteria.entries()) {
-      const routeValue = (route as any)[key];
+      const matchedValues = this.matchingValues(item, key, values);
+      explanations.push({
+        kind: "criterion",
+        key,
+        values: Array.from(values),
+        itemValues: this.itemValues(item, key),
+        matchedValues,
+        satisfied: matchedValues.length > 0,
+      });
+    }
 
-      if (Array.isArray(routeValue)) {
-        // Check if any route value matches any filter value
-        const hasMatch = routeValue.some((v) => values.has(v));
-        if (!hasMatch) return false;
-      } else {
-        // Single value field
-        if (!values.has(routeValue)) return false;
+    for (const [key, values] of filter.exclusions.entries()) {
+      const matchedValues = this.matchingValues(item, key, values);
+      explanations.push({
+        kind: "exclusion",
+        key,
+        values: Array.from(values),
+        itemValues: this.itemValues(item, key),
+        matchedValues,
+        satisfied: matchedValues.length === 0,
+      });
+    }
+
+    for (const [key, range] of filter.ranges.entries()) {
+      const matched = this.matchesRange(item, key, range);
+      explanations.push({
+        kind: "range",
+        key,
+        values: [this.formatRange(range)],
+        itemValues: this.itemValues(item, key),
+        matchedValues: matched ? this.itemValues(item, key) : [],
+        satisfied: matched,
+      });
+    }
+
+    if (filter.expression) {
+      explanations.push({
+        kind: "expression",
+        key: "expression",
+        values: [this.formatExpression(filter.expression)],
+        itemValues: [],
+        matchedValues: this.expressionMatches(item, filter.expression),
+        satisfied: this.matchesExpression(item, filter.expression),
+      });
+    }
+
+    const failed = explanations.filter((e) => !e.satisfied);
+    return {
+      item,
+      matches: failed.length === 0,
+      satisfied: explanations.filter((e) => e.satisfied),
+      failed,
+    };
+  }
+
+  /**
+   * Item values that hit any criterion leaf of the expression, formatted
+   * as "key=value" since leaves may span several fields
+   */
+  private expressionMatches(
+    item: Item,
+    expression: FilterExpression
+  ): string[] {
+    switch (expression.type) {
+      case "criterion":
+        return this.matchingValues(item, expression.key, expression.values).map(
+          (value) => `${expression.key}=${value}`
+        );
+      case "range":
+        return this.matchesRange(item, expression.key, expression.range)
+          ? this.itemValues(item, expression.key).map(
+              (value) => `${expression.key}=${value}`
+            )
+          : [];
+      case "and":
+      case "or":
+        return expression.children.flatMap((child) =>
+          this.expressionMatches(item, child)
+        );
+      case "not":
+        return [];
+    }
+  }
+
+  /**
+   * Score every item by the criteria it satisfies instead of dropping it on
+   * the first miss, so near-misses still show up. Items that satisfy nothing
+   * are left out; the rest come back best first.
+   */
+  private rankItems(
+    filter: Filter,
+    items: Item[],
+    weights: FieldWeights
+  ): RankedItem<Item>[] {
+    return items
+      .map((item) => this.scoreItem(item, filter, weights))
+      .filter((ranked) => ranked.score > 0)
+      .sort((a, b) => b.score - a.score || b.matchedValues - a.matchedValues);
+  }
+
+  private scoreItem(
+    item: Item,
+    filter: Filter,
+    weights: FieldWeights
+  ): RankedItem<Item> {
+    const weightOf = (key: string) =>
+      weights[key] ?? this.fieldSchema(key)?.weight ?? 1;
+    let earned = 0;
+    let possible = 0;
+    let matchedValues = 0;
+
+    for (const [key, values] of filter.criteria.entries()) {
+      const hits = this.matchingValues(item, key, values);
+      possible += weightOf(key);
+      if (hits.length > 0) {
+        earned += weightOf(key);
+        matchedValues += hits.length;
+      }
+    }
+
+    for (const [key, values] of filter.exclusions.entries()) {
+      // An exclusion is satisfied when the item avoids every excluded value
+      possible += weightOf(key);
+      if (this.matchingValues(item, key, values).length === 0) {
+        earned += weightOf(key);
+      }
+    }
+
+    for (const [key, range] of filter.ranges.entries()) {
+      possible += weightOf(key);
+      if (this.matchesRange(item, key, range)) {
+        earned += weightOf(key);
+      }
+    }
+
+    if (filter.expression) {
+      possible += weightOf("expression");
+      if (this.matchesExpression(item, filter.expression)) {
+        earned += weightOf("expression");
       }
     }
+
+    return {
+      item,
+      score: possible === 0 ? 1 : earned / possible,
+      matchedValues,
+    };
+  }
+
+  private matchesFilter(item: Item, filter: Filter): boolean {
+    for (const [key, values] of filter.criteria.entries()) {
+      if (!this.matchesCriterion(item, key, values)) return false;
+    }
+
+    for (const [key, values] of filter.exclusions.entries()) {
+      // Drop the item if any of its values is excluded
+      if (this.matchesCriterion(item, key, values)) return false;
+    }
+
+    for (const [key, range] of filter.ranges.entries()) {
+      if (!this.matchesRange(item, key, range)) return false;
+    }
+
+    if (filter.expression) {
+      return this.matchesExpression(item, filter.expression);
+    }
     return true;
   }
 
+  private matchesExpression(item: Item, expression: FilterExpression): boolean {
+    switch (expression.type) {
+      case "criterion":
+        return this.matchesCriterion(item, expression.key, expression.values);
+      case "range":
+        return this.matchesRange(item, expression.key, expression.range);
+      case "and":
+        return expression.children.every((child) =>
+          this.matchesExpression(item, child)
+        );
+      case "or":
+        return expression.children.some((child) =>
+          this.matchesExpression(item, child)
+        );
+      case "not":
+        return !this.matchesExpression(item, expression.child);
+    }
+  }
+
+  private matchesCriterion(
+    item: Item,
+    key: string,
+    values: Set<string>
+  ): boolean {
+    // Any item value matching any filter value is enough
+    return this.matchingValues(item, key, values).length > 0;
+  }
+
+  private itemValues(item: Item, key: string): string[] {
+    const itemValue = (item as any)[key];
+    if (Array.isArray(itemValue)) return itemValue;
+    return itemValue === undefined ? [] : [String(itemValue)];
+  }
+
+  private fieldSchema(key: string): FieldSchema | undefined {
+    return (this.schema.fields as Record<string, FieldSchema | undefined>)[key];
+  }
+
+  private matchingValues(
+    item: Item,
+    key: string,
+    values: Set<string>
+  ): string[] {
+    const itemValue = (item as any)[key];
+    const scale = this.orderedFields[key];
+
+    if (scale) {
+      // Ordered values match on their position, so "7A" matches "V6"
+      const position = scale.position(itemValue);
+      const matched = Array.from(values).some(
+        (v) => position !== undefined && scale.position(v) === position
+      );
+      return matched ? [itemValue] : [];
+    }
+
+    if (Array.isArray(itemValue)) {
+      return itemValue.filter((v) => values.has(v));
+    }
+    // Single value field
+    return values.has(itemValue) ? [itemValue] : [];
+  }
+
+  private matchesRange(item: Item, key: string, range: ValueRange): boolean {
+    const scale = this.orderedFields[key];
+    const position = scale?.position((item as any)[key]);
+    if (position === undefined) return false;
+
+    const min = range.min !== undefined ? scale.position(range.min) : undefined;
+    const max = range.max !== undefined ? scale.position(range.max) : undefined;
+    return (
+      (min === undefined || position >= min) &&
+      (max === undefined || position <= max)
+    );
+  }
+
+  private formatRange(range: ValueRange): string {
+    if (range.min !== undefined && range.max !== undefined) {
+      return `${range.min} to ${range.max}`;
+    }
+    return range.min !== undefined
+      ? `${range.min} and up`
+      : `up to ${range.max}`;
+  }
+
+  private formatExpression(expression: FilterExpression): string {
+    switch (expression.type) {
+      case "criterion":
+        return `${expression.key} in [${Array.from(expression.values).join(", ")}]`;
+      case "range":
+        return `${expression.key} ${this.formatRange(expression.range)}`;
+      case "and":
+      case "or":
+        return expression.children
+          .map((child) =>
+            child.type === "and" || child.type === "or"
+              ? `(${this.formatExpression(child)})`
+              : this.formatExpression(child)
+          )
+          .join(` ${expression.type.toUpperCase()} `);
+      case "not":
+        return `NOT ${
+          expression.child.type === "criterion" ||
+          expression.child.type === "range"
+            ? this.formatExpression(expression.child)
+            : `(${this.formatExpression(expression.child)})`
+        }`;
+    }
+  }
+
   clearFilter(filter: Filter): void {
     filter.criteria.clear();
+    filter.exclusions.clear();
+    filter.ranges.clear();
+    filter.expression = undefined;
     filter.naturalQuery = undefined;
+    filter.history = [];
   }
 
-  displayFilter(filter: Filter): void {
-    console.log(`\nFilter: ${filter.filterId}`);
-    console.log("==================");
+  /**
+   * The filter's query, history and criteria as text
+   */
+  displayFilter(filter: Filter): string {
+    const lines = [`Filter: ${filter.filterId}`, "=================="];
 
     if (filter.naturalQuery) {
-      console.log(`Natural Query: "${filter.naturalQuery}"`);
+      lines.push(`Natural Query: "${filter.naturalQuery}"`);
+    }
+    if (filter.history.length > 1) {
+      lines.push(
+        `Query History: ${filter.history.map((q) => `"${q}"`).join(" → ")}`
+      );
     }
 
-    if (filter.criteria.size === 0) {
-      console.log("No criteria set");
+    if (
+      filter.criteria.size === 0 &&
+      filter.exclusions.size === 0 &&
+      filter.ranges.size === 0 &&
+      !filter.expression
+    ) {
+      lines.push("No criteria set");
     } else {
-      console.log("Criteria:");
+      lines.push("Criteria:");
       for (const [key, values] of filter.criteria.entries()) {
-        console.log(`  ${key}: [${Array.from(values).join(", ")}]`);
+        lines.push(`  ${key}: [${Array.from(values).join(", ")}]`);
+      }
+      for (const [key, values] of filter.exclusions.entries()) {
+        lines.push(`  not ${key}: [${Array.from(values).join(", ")}]`);
+      }
+      for (const [key, range] of filter.ranges.entries()) {
+        lines.push(`  ${key}: ${this.formatRange(range)}`);
+      }
+      if (filter.expression) {
+        lines.push(`  expression: ${this.formatExpression(filter.expression)}`);
       }
     }
+    return lines.join("\n");
   }
 
-  displayResults(routes: ClimbingRoute[]): void {
-    console.log(`\nSearch Results (${routes.length} routes found)`);
-    console.log("==================");
+  /**
+   * The interpretations of an ambiguous parse, numbered for
+   * applyInterpretation
+   */
+  displayInterpretations(result: ParseResult): string {
+    const lines = [
+      `Interpretations of "${result.query}"`,
+      "==================",
+    ];
 
-    if (routes.length === 0) {
-      console.log("No routes match the filter criteria");
+    if (result.interpretations.length === 0) {
+      lines.push("Query was not ambiguous");
     } else {
-      routes.forEach((route) => {
-        console.log(`\n${route.name} (${route.grade})`);
-        console.log(`  Angle: ${route.angle}`);
-        console.log(`  Holds: ${route.holdTypes.join(", ")}`);
-        console.log(`  Moves: ${route.moveTypes.join(", ")}`);
-        console.log(`  Goals: ${route.goals.join(", ")}`);
+      result.interpretations.forEach((interpretation, index) => {
+        lines.push(
+          `  [${index}] ${interpretation.label}: ${JSON.stringify(
+            interpretation.criteria
+          )}`
+        );
       });
     }
+    return lines.join("\n");
+  }
+
+  /**
+   * Search results as text, with scores and explanations when they have them
+   */
+  displayResults(
+    results: Item[] | RankedItem<Item>[] | ItemExplanation<Item>[]
+  ): string {
+    // Ranked and explained results wrap the item; plain results are items
+    type Entry = Partial<RankedItem<Item> & ItemExplanation<Item>>;
+    const entries: Entry[] = (results as object[]).map((result) =>
+      "score" in result || "matches" in result
+        ? (result as Entry)
+        : { item: result as Item }
+    );
+    const explained = entries.filter((e) => e.matches !== undefined);
+    const found =
+      explained.length > 0
+        ? `${explained.filter((e) => e.matches).length} of ${results.length} ${
+            this.schema.itemNamePlural
+          } match`
+        : `${results.length} ${this.schema.itemNamePlural} found`;
+
+    const lines = [`Search Results (${found})`, "=================="];
+
+    if (entries.length === 0) {
+      lines.push(`No ${this.schema.itemNamePlural} match the filter criteria`);
+    } else {
+      for (const entry of entries) {
+        const item = entry.item as Item;
+        const score =
+          entry.score !== undefined ? ` - score ${entry.score.toFixed(2)}` : "";
+        const verdict =
+          entry.matches === undefined
+            ? ""
+            : entry.matches
+              ? " - match"
+              : " - no match";
+
+        lines.push("", `${this.schema.nameOf(item)}${score}${verdict}`);
+        for (const [key, field] of schemaFields(this.schema)) {
+          lines.push(
+            `  ${field.label}: ${this.itemValues(item, key).join(", ")}`
+          );
+        }
+
+        if (entry.matches !== undefined) {
+          lines.push(...this.explanationLines(entry as ItemExplanation<Item>));
+        }
+      }
+    }
+    return lines.join("\n");
+  }
+
+  private explanationLines(explanation: ItemExplanation<Item>): string[] {
+    const lines: string[] = [];
+    for (const e of explanation.satisfied) {
+      lines.push(`  Satisfied: ${this.describeCriterion(e)}`);
+    }
+    for (const e of explanation.failed) {
+      lines.push(`  Failed: ${this.describeCriterion(e)}`);
+    }
+    return lines;
+  }
+
+  private describeCriterion(e: CriterionExplanation): string {
+    const matched = e.matchedValues.join(", ");
+
+    switch (e.kind) {
+      case "criterion":
+        return e.satisfied
+          ? `${e.key} matched on ${matched}`
+          : `${e.key} wanted [${e.values.join(", ")}], item has [${e.itemValues.join(", ")}]`;
+      case "exclusion":
+        return e.satisfied
+          ? `${e.key} avoids [${e.values.join(", ")}]`
+          : `${e.key} has excluded ${matched}`;
+      case "range":
+        return e.satisfied
+          ? `${e.key} ${matched} is within ${e.values[0]}`
+          : `${e.key} wanted ${e.values[0]}, item has [${e.itemValues.join(", ")}]`;
+      case "expression":
+        return e.satisfied
+          ? `expression ${e.values[0]} matched on ${matched}`
+          : `expression ${e.values[0]} not satisfied`;
+    }
   }
 }
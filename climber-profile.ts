@@ -0,0 +1,130 @@
+/**
+ * Climber profiles for calibrating subjective difficulty
+ *
+ * "Hard" for someone who flashes V2 is not "hard" for someone projecting V10.
+ * A profile anchors relative terms like "easy", "hard" and "not impossible"
+ * to the climber's own flash and project grades.
+ */
+
+import { gradeLabel, GradeSystem, parseGrade } from "./grades";
+
+export interface ClimberProfile {
+  maxFlashGrade: string; // hardest grade climbed first try
+  projectGrade: string; // grade currently being worked on
+  preferredStyles?: string[]; // field values, e.g. "overhang", "crimp"
+  weaknesses?: string[]; // field values, e.g. "sloper", "slab"
+}
+
+export type DifficultyTerm = "easy" | "moderate" | "hard" | "limit" | "doable";
+
+export interface GradeBounds {
+  min?: string;
+  max?: string;
+}
+
+// Relative terms in the order they are matched; negated and compound
+// phrases come first so "not too hard" isn't read as "hard"
+const DIFFICULTY_PATTERNS: [DifficultyTerm, RegExp][] = [
+  ["doable", /\b(not impossible|doable|achievable|within reach)\b/i],
+  [
+    "moderate",
+    /\b(not too (hard|easy)|moderate|medium|comfortable|around my level)\b/i,
+  ],
+  ["limit", /\b(at my limit|limit|max effort|projects?|projecting)\b/i],
+  ["hard", /\b(hard|harder|challenging|difficult|tough|pushing)\b/i],
+  ["easy", /\b(easy|easier|warm ?ups?|warming up|chill|relaxed)\b/i],
+];
+
+/**
+ * Check that both grades parse and the project is not below the flash grade
+ */
+export function validateProfile(profile: ClimberProfile): void {
+  const flash = parseGrade(profile.maxFlashGrade);
+  const project = parseGrade(profile.projectGrade);
+
+  if (!flash) {
+    throw new Error(`Invalid max flash grade "${profile.maxFlashGrade}"`);
+  }
+  if (!project) {
+    throw new Error(`Invalid project grade "${profile.projectGrade}"`);
+  }
+  if (project.value < flash.value) {
+    throw new Error(
+      `Project grade ${profile.projectGrade} is below max flash grade ${profile.maxFlashGrade}`
+    );
+  }
+}
+
+/**
+ * Grade bounds each relative term stands for, in the grading system of the
+ * climber's flash grade. Given maxSpan, the widest range the caller accepts
+ * in V-scale steps, "hard" stops that far above its lower bound even when
+ * the project is further away.
+ */
+export function difficultyBounds(
+  profile: ClimberProfile,
+  maxSpan?: number
+): Record<DifficultyTerm, GradeBounds> {
+  const flashGrade = parseGrade(profile.maxFlashGrade);
+  const projectGrade = parseGrade(profile.projectGrade);
+  if (!flashGrade || !projectGrade) {
+    throw new Error("Climber profile has an invalid grade");
+  }
+
+  const system: GradeSystem = flashGrade.system;
+  const flash = flashGrade.value;
+  const project = Math.max(projectGrade.value, flash + 1);
+  const label = (value: number) => gradeLabel(value, system);
+
+  return {
+    easy: { min: label(flash - 4), max: label(flash - 2) },
+    moderate: { min: label(flash - 1), max: label(flash) },
+    hard: {
+      min: label(flash + 1),
+      max: label(Math.min(project, flash + 1 + (maxSpan ?? Infinity))),
+    },
+    limit: { min: label(project), max: label(project + 1) },
+    doable: { max: label(project) },
+  };
+}
+
+/**
+ * Find the first relative difficulty term in a query
+ */
+export function findDifficultyTerm(query: string): DifficultyTerm | undefined {
+  return DIFFICULTY_PATTERNS.find(([, pattern]) => pattern.test(query))?.[0];
+}
+
+/**
+ * Prompt lines describing the climber and what relative terms mean for them,
+ * with ranges no wider than maxSpan as in difficultyBounds
+ */
+export function describeProfile(
+  profile: ClimberProfile,
+  maxSpan?: number
+): string {
+  const bounds = difficultyBounds(profile, maxSpan);
+  const describe = ({ min, max }: GradeBounds) =>
+    min && max ? `${min} to ${max}` : min ? `${min} and up` : `up to ${max}`;
+
+  const lines = [
+    `- Max flash grade: ${profile.maxFlashGrade}`,
+    `- Project grade: ${profile.projectGrade}`,
+  ];
+  if (profile.preferredStyles?.length) {
+    lines.push(`- Preferred styles: ${profile.preferredStyles.join(", ")}`);
+  }
+  if (profile.weaknesses?.length) {
+    lines.push(`- Weaknesses: ${profile.weaknesses.join(", ")}`);
+  }
+
+  return `${lines.join("\n")}
+
+Relative difficulty is relative to THIS climber:
+- "easy/warmup" → grade ${describe(bounds.easy)}
+- "moderate/not too hard" → grade ${describe(bounds.moderate)}
+- "hard/challenging" → grade ${describe(bounds.hard)}
+- "at my limit/project" → grade ${describe(bounds.limit)}
+- "not impossible/doable" → grade ${describe(bounds.doable)}
+- "my style" → the preferred styles; "my weaknesses" → the weaknesses`;
+}
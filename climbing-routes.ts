@@ -0,0 +1,220 @@
+/**
+ * Climbing routes, the items AIFilter was built for
+ *
+ * The schema below carries everything climbing-specific the filter needs:
+ * grades on an ordered scale, the wall angles, hold and move types and
+ * training goals, the slang climbers use for them and the prompt guidance
+ * for turning subjective terms into concrete values.
+ */
+
+import { conflictRule, CriteriaRule, spanRule } from "./criteria-rules";
+import { ItemSchema } from "./item-schema";
+import { describeGradeSystems, gradeValue, parseGrade } from "./grades";
+
+export interface ClimbingRoute {
+  name: string;
+  grade: string; // V-scale, Fontainebleau or YDS, e.g. "V4", "6B+", "5.12a"
+  angle: string;
+  holdTypes: string[];
+  moveTypes: string[];
+  goals: string[];
+}
+
+// Combinations of climbing criteria that suggest a misread query
+export const CLIMBING_RULES: CriteriaRule[] = [
+  spanRule("grade", 5),
+  conflictRule(
+    ["angle", "slab"],
+    ["angle", "roof"],
+    "warning",
+    "opposite wall angles"
+  ),
+  {
+    name: "jug-for-finger-strength",
+    severity: "warning",
+    description: "jugs with finger strength as the only goal",
+    check: (criteria) => {
+      const goals = criteria.values("goals");
+      return criteria.values("holdTypes").includes("jug") &&
+        goals.length === 1 &&
+        goals[0] === "finger strength"
+        ? `"holdTypes: jug" with "finger strength" as the only goal: jugs barely load the fingers`
+        : undefined;
+    },
+  },
+  {
+    name: "beginner-tension",
+    severity: "warning",
+    description: "beginner grades with tension moves",
+    check: (criteria) => {
+      const positions = criteria.positions("grade");
+      return positions.length > 0 &&
+        positions.every(([value]) => value <= 2) &&
+        criteria.values("moveTypes").includes("tension")
+        ? `Beginner grades (up to V2) with "moveTypes: tension": tension moves are rare that easy`
+        : undefined;
+    },
+  },
+];
+
+export const CLIMBING_ROUTE_SCHEMA: ItemSchema<ClimbingRoute> = {
+  itemName: "climbing route",
+  itemNamePlural: "climbing routes",
+  domain: "climbing",
+  nameOf: (route) => route.name,
+  difficultyField: "grade",
+  rules: CLIMBING_RULES,
+  fields: {
+    grade: {
+      label: "Grade",
+      kind: "single",
+      scale: {
+        position: gradeValue,
+        canonical: (value) => parseGrade(value)?.label,
+        describe: describeGradeSystems,
+        examples: ["V4", "V6"],
+        // Font grades without a letter ("4", "5+") are just numbers
+        bare: (value) => /^\d+\+?$/.test(value.trim()),
+        keywords: ["grade", "font"],
+      },
+      weight: 2,
+    },
+    angle: {
+      label: "Angle",
+      kind: "single",
+      values: ["slab", "vertical", "overhang", "roof"],
+      valueDescriptions: {
+        slab: "< 90°",
+        vertical: "90°",
+        overhang: "> 90°",
+        roof: "horizontal",
+      },
+      synonyms: {
+        overhung: "overhang",
+        overhanging: "overhang",
+        steep: "overhang",
+        cave: "roof",
+        horizontal: "roof",
+        slabby: "slab",
+        vert: "vertical",
+        "vertical wall": "vertical",
+        face: "vertical",
+      },
+    },
+    holdTypes: {
+      label: "Hold Types",
+      kind: "multi",
+      values: ["crimp", "jug", "sloper", "pinch", "pocket"],
+      valueDescriptions: {
+        crimp: "small edges",
+        jug: "large holds",
+        sloper: "rounded",
+      },
+      synonyms: {
+        juggy: "jug",
+        bucket: "jug",
+        "big hold": "jug",
+        "big holds": "jug",
+        crimpy: "crimp",
+        edge: "crimp",
+        "small edge": "crimp",
+        slopey: "sloper",
+        sloping: "sloper",
+        pinchy: "pinch",
+        mono: "pocket",
+        "two finger pocket": "pocket",
+      },
+    },
+    moveTypes: {
+      label: "Move Types",
+      kind: "multi",
+      values: ["static", "dynamic", "compression", "tension", "coordination"],
+      valueDescriptions: {
+        static: "controlled",
+        dynamic: "powerful",
+      },
+      synonyms: {
+        dyno: "dynamic",
+        deadpoint: "dynamic",
+        powerful: "dynamic",
+        controlled: "static",
+        compressive: "compression",
+        squeeze: "compression",
+        "body tension": "tension",
+        coordinated: "coordination",
+        "comp style": "coordination",
+      },
+    },
+    goals: {
+      label: "Training Goals",
+      kind: "multi",
+      values: [
+        "finger strength",
+        "power",
+        "endurance",
+        "technique",
+        "flexibility",
+      ],
+      synonyms: {
+        fingers: "finger strength",
+        finger: "finger strength",
+        "grip strength": "finger strength",
+        "finger training": "finger strength",
+        powerful: "power",
+        strength: "power",
+        stamina: "endurance",
+        "power endurance": "endurance",
+        technical: "technique",
+        footwork: "technique",
+        mobility: "flexibility",
+        flexible: "flexibility",
+      },
+    },
+  },
+  hints: [
+    `"powerful/dynamic" → goals: ["power"], moveTypes: ["dynamic"]`,
+    `"technical/precise" → goals: ["technique"], moveTypes: ["static"]`,
+    `"small holds" → holdTypes: ["crimp", "pinch", "pocket"]`,
+    `"big holds/juggy" → holdTypes: ["jug"]`,
+    `"training" → include relevant goals based on context`,
+  ],
+  difficultyHints: [
+    `"easy/beginner/warmup" → grade V0-V2`,
+    `"intermediate/moderate" → grade V3-V5`,
+    `"hard/challenging/difficult" → grade V5-V7`,
+    `"advanced/very hard" → grade V7-V9`,
+    `"expert/extreme" → grade V10 and up`,
+  ],
+  examples: [
+    {
+      query: "challenging crimpy routes",
+      output: { grade: ["V5", "V6", "V7"], holdTypes: ["crimp"] },
+    },
+    {
+      query: "powerful overhang climbs",
+      output: {
+        angle: ["overhang"],
+        goals: ["power"],
+        moveTypes: ["dynamic"],
+      },
+    },
+    {
+      query: "V4 to V6 overhangs with small holds but no slopers",
+      output: {
+        ranges: { grade: { min: "V4", max: "V6" } },
+        angle: ["overhang"],
+        holdTypes: ["crimp", "pinch", "pocket"],
+        exclude: { holdTypes: ["sloper"] },
+      },
+    },
+    {
+      query: "either crimpy overhangs or slopey roofs",
+      output: {
+        anyOf: [
+          { holdTypes: ["crimp"], angle: ["overhang"] },
+          { holdTypes: ["sloper"], angle: ["roof"] },
+        ],
+      },
+    },
+  ],
+};
@@ -0,0 +1,335 @@
+/**
+ * LLM configuration loading
+ *
+ * A Config can come from code, a JSON file, environment variables or a mix:
+ * loadConfig reads the file, then the environment, then overrides given in
+ * code, each taking precedence over the one before. Nothing here exits the
+ * process; problems are thrown as a ConfigError listing every one found,
+ * so an app embedding the library decides how to report them.
+ */
+
+import * as fs from "fs";
+import { Config, generationProblems, ProviderName } from "./llm";
+import { CacheMode } from "./llm-cache";
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid LLM config:\n- ${problems.join("\n- ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+export interface LoadConfigOptions {
+  path?: string; // JSON config file; skipped if it doesn't exist
+  env?: Record<string, string | undefined>; // process.env if omitted
+  overrides?: Config;
+}
+
+const PROVIDERS: ProviderName[] = ["gemini", "openai-compatible", "mock"];
+const CACHE_STORES = ["memory", "disk"];
+const CACHE_MODES: CacheMode[] = ["normal", "bypass", "only"];
+
+const CONFIG_FIELDS = [
+  "provider",
+  "apiKey",
+  "model",
+  "baseUrl",
+  "temperature",
+  "topP",
+  "maxOutputTokens",
+  "safetySettings",
+  "timeoutMs",
+  "retry",
+  "rateLimit",
+  "structuredOutput",
+  "responses",
+  "cache",
+];
+
+// Gemini's harm categories and block thresholds
+const HARM_CATEGORIES = [
+  "HARM_CATEGORY_HARASSMENT",
+  "HARM_CATEGORY_HATE_SPEECH",
+  "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+  "HARM_CATEGORY_DANGEROUS_CONTENT",
+];
+const BLOCK_THRESHOLDS = [
+  "BLOCK_NONE",
+  "BLOCK_ONLY_HIGH",
+  "BLOCK_MEDIUM_AND_ABOVE",
+  "BLOCK_LOW_AND_ABOVE",
+];
+
+/**
+ * Config set by LLM_* environment variables. GEMINI_API_KEY is read when
+ * LLM_API_KEY is not set.
+ */
+export function configFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Config {
+  const problems: string[] = [];
+  const number = (name: string) => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) {
+      problems.push(`${name} must be a number, got "${value}"`);
+    }
+    return parsed;
+  };
+  const boolean = (name: string) => {
+    const value = env[name];
+    if (value === undefined || value === "") return undefined;
+    if (value !== "true" && value !== "false") {
+      problems.push(`${name} must be true or false, got "${value}"`);
+    }
+    return value === "true";
+  };
+
+  const config: Config = {
+    provider: (env.LLM_PROVIDER || undefined) as ProviderName | undefined,
+    apiKey: env.LLM_API_KEY || env.GEMINI_API_KEY || undefined,
+    model: env.LLM_MODEL || undefined,
+    baseUrl: env.LLM_BASE_URL || undefined,
+    temperature: number("LLM_TEMPERATURE"),
+    topP: number("LLM_TOP_P"),
+    maxOutputTokens: number("LLM_MAX_OUTPUT_TOKENS"),
+    timeoutMs: number("LLM_TIMEOUT_MS"),
+    structuredOutput: boolean("LLM_STRUCTURED_OUTPUT"),
+  };
+
+  if (problems.length > 0) throw new ConfigError(problems);
+  return withoutUndefined(config);
+}
+
+/**
+ * Config from a JSON file
+ */
+export function configFromFile(path: string): Config {
+  let text: string;
+  try {
+    text = fs.readFileSync(path, "utf8");
+  } catch (error) {
+    throw new ConfigError([`Cannot read ${path}: ${(error as Error).message}`]);
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError([
+      `${path} is not valid JSON: ${(error as Error).message}`,
+    ]);
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new ConfigError([`${path} must contain a JSON object`]);
+  }
+  return config as Config;
+}
+
+/**
+ * Merge the file, environment and code overrides, then validate
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const fromFile =
+    options.path !== undefined && fs.existsSync(options.path)
+      ? configFromFile(options.path)
+      : {};
+  const config = {
+    ...fromFile,
+    ...configFromEnv(options.env),
+    ...withoutUndefined(options.overrides ?? {}),
+  };
+
+  try {
+    return validateConfig(config);
+  } catch (error) {
+    if (
+      error instanceof ConfigError &&
+      options.path !== undefined &&
+      !fs.existsSync(options.path)
+    ) {
+      throw new ConfigError([
+        ...error.problems,
+        `(no config file at ${options.path}; LLM_* environment variables were read instead)`,
+      ]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a config, from any source, before it is used. Returns it unchanged.
+ */
+export function validateConfig(config: Config): Config {
+  const problems: string[] = [];
+  const provider = config.provider ?? "gemini";
+
+  for (const key of Object.keys(config)) {
+    if (!CONFIG_FIELDS.includes(key)) {
+      problems.push(`Unknown config field "${key}"`);
+    }
+  }
+
+  if (!PROVIDERS.includes(provider)) {
+    problems.push(
+      `Unknown LLM provider "${provider}"; expected one of ${PROVIDERS.join(
+        ", "
+      )}`
+    );
+  }
+  if (provider === "gemini" && !config.apiKey) {
+    problems.push(
+      'The gemini provider needs an "apiKey" (or LLM_API_KEY in the environment)'
+    );
+  }
+  if (provider === "openai-compatible") {
+    if (!config.baseUrl || !config.model) {
+      problems.push(
+        'The openai-compatible provider needs a "baseUrl" and a "model"'
+      );
+    } else if (!/^https?:\/\/[^\s/]+/.test(config.baseUrl)) {
+      problems.push(`baseUrl must be an http(s) URL, got "${config.baseUrl}"`);
+    }
+  }
+  if (
+    provider === "mock" &&
+    config.responses !== undefined &&
+    !(
+      Array.isArray(config.responses) &&
+      config.responses.every((response) => typeof response === "string")
+    )
+  ) {
+    problems.push("responses must be a list of strings");
+  }
+
+  const checkNumber = (
+    name: keyof Config,
+    valid: (value: number) => boolean,
+    expected: string
+  ) => {
+    const value = config[name];
+    if (value === undefined) return;
+    if (typeof value !== "number" || !valid(value)) {
+      problems.push(
+        `${name} must be ${expected}, got ${JSON.stringify(value)}`
+      );
+    }
+  };
+  problems.push(...generationProblems(config));
+  checkNumber("timeoutMs", (v) => v > 0, "positive");
+
+  const nonNegative = numberCheck((v) => v >= 0, "a non-negative number");
+  const positive = numberCheck((v) => v > 0, "positive");
+  const positiveInteger = numberCheck(
+    (v) => Number.isInteger(v) && v > 0,
+    "a positive integer"
+  );
+  checkSection(config, "retry", problems, {
+    maxRetries: numberCheck(
+      (v) => Number.isInteger(v) && v >= 0,
+      "a non-negative integer"
+    ),
+    baseDelayMs: nonNegative,
+    maxDelayMs: nonNegative,
+  });
+  checkSection(config, "rateLimit", problems, {
+    requestsPerMinute: positiveInteger,
+    maxConcurrent: positiveInteger,
+  });
+  checkSection(config, "cache", problems, {
+    store: [
+      (v) => CACHE_STORES.includes(v as string),
+      `one of ${CACHE_STORES.join(", ")}`,
+    ],
+    path: [(v) => typeof v === "string" && v !== "", "a file path"],
+    mode: [
+      (v) => CACHE_MODES.includes(v as CacheMode),
+      `one of ${CACHE_MODES.join(", ")}`,
+    ],
+    ttlMs: positive,
+    maxEntries: positiveInteger,
+  });
+
+  if (config.safetySettings !== undefined) {
+    if (!Array.isArray(config.safetySettings)) {
+      problems.push("safetySettings must be a list");
+    } else {
+      for (const [i, setting] of config.safetySettings.entries()) {
+        if (!HARM_CATEGORIES.includes(setting?.category)) {
+          problems.push(
+            `safetySettings[${i}].category must be one of ${HARM_CATEGORIES.join(
+              ", "
+            )}`
+          );
+        }
+        if (!BLOCK_THRESHOLDS.includes(setting?.threshold)) {
+          problems.push(
+            `safetySettings[${i}].threshold must be one of ${BLOCK_THRESHOLDS.join(
+              ", "
+            )}`
+          );
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) throw new ConfigError(problems);
+  return config;
+}
+
+// A field's test and what it expects, for the problem message
+type FieldCheck = [(value: unknown) => boolean, string];
+
+function numberCheck(
+  valid: (value: number) => boolean,
+  expected: string
+): FieldCheck {
+  return [(value) => typeof value === "number" && valid(value), expected];
+}
+
+/**
+ * Check an object-valued section such as "retry": its fields must be known
+ * and pass their checks
+ */
+function checkSection(
+  config: Config,
+  name: "retry" | "rateLimit" | "cache",
+  problems: string[],
+  fields: Record<string, FieldCheck>
+): void {
+  const section: unknown = config[name];
+  if (section === undefined) return;
+  if (
+    typeof section !== "object" ||
+    section === null ||
+    Array.isArray(section)
+  ) {
+    problems.push(`${name} must be an object`);
+    return;
+  }
+
+  for (const [key, value] of Object.entries(section)) {
+    const check = fields[key];
+    if (!check) {
+      problems.push(
+        `Unknown ${name} field "${key}"; expected one of ${Object.keys(
+          fields
+        ).join(", ")}`
+      );
+      continue;
+    }
+    const [valid, expected] = check;
+    if (value !== undefined && !valid(value)) {
+      problems.push(
+        `${name}.${key} must be ${expected}, got ${JSON.stringify(value)}`
+      );
+    }
+  }
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as T;
+}
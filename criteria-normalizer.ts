@@ -0,0 +1,245 @@
+/**
+ * Normalization of LLM criteria values
+ *
+ * Sits between JSON parsing and validation so trivial differences ("crimps",
+ * "Jugs", "overhung", "V 5") are rewritten to canonical values instead of
+ * failing the whole parse. Every rewrite is returned so it can be audited.
+ */
+
+export type RewriteReason =
+  "case" | "plural" | "synonym" | "spelling" | "format";
+
+export interface NormalizationRewrite {
+  path: string; // where the value was, e.g. "exclude.holdTypes"
+  from: string;
+  to: string;
+  reason: RewriteReason;
+}
+
+export class CriteriaNormalizer {
+  private synonyms = new Map<string, Map<string, string>>();
+
+  /**
+   * @param validValues canonical values of each unordered field
+   * @param orderedFields formatter for each ordered field, returning the
+   *   canonical label of a value or undefined if it can't be read
+   * @param synonyms initial dictionary of aliases, by field
+   */
+  constructor(
+    private validValues: Record<string, Set<string>>,
+    private orderedFields: Record<
+      string,
+      (value: string) => string | undefined
+    >,
+    synonyms: Record<string, Record<string, string>> = {}
+  ) {
+    for (const [field, aliases] of Object.entries(synonyms)) {
+      for (const [alias, canonical] of Object.entries(aliases)) {
+        this.addSynonym(field, alias, canonical);
+      }
+    }
+  }
+
+  /**
+   * Extend the dictionary; aliases are matched case-insensitively
+   */
+  addSynonym(field: string, alias: string, canonical: string): void {
+    if (!this.validValues[field]?.has(canonical)) {
+      throw new Error(
+        `Cannot map "${alias}" to "${canonical}": not a valid value of field "${field}"`
+      );
+    }
+
+    const aliases = this.synonyms.get(field) ?? new Map<string, string>();
+    aliases.set(this.simplify(alias), canonical);
+    this.synonyms.set(field, aliases);
+  }
+
+  /**
+   * Rewrite values in an LLM answer in place. Understands criteria groups
+   * (fields, "exclude", "ranges", nested "anyOf"), ambiguous answers
+   * ("interpretations") and refine diffs ("add", "remove", "replace").
+   * Unknown fields and values that can't be matched are left for the
+   * validator to report.
+   */
+  normalize(parsed: unknown): NormalizationRewrite[] {
+    const rewrites: NormalizationRewrite[] = [];
+
+    if (!this.isObject(parsed)) return rewrites;
+
+    if (Array.isArray(parsed.interpretations)) {
+      parsed.interpretations.forEach((interpretation: unknown, i: number) => {
+        if (this.isObject(interpretation)) {
+          this.normalizeGroup(
+            interpretation.criteria,
+            `interpretations[${i}].criteria.`,
+            rewrites
+          );
+        }
+      });
+    }
+    for (const operation of ["add", "remove", "replace"]) {
+      this.normalizeGroup(parsed[operation], `${operation}.`, rewrites);
+    }
+    this.normalizeGroup(parsed, "", rewrites);
+
+    return rewrites;
+  }
+
+  /**
+   * Canonical form of one value, or undefined if none is close enough
+   */
+  normalizeValue(
+    field: string,
+    value: string
+  ): { value: string; reason?: RewriteReason } | undefined {
+    const format = this.orderedFields[field];
+    if (format) {
+      const label = format(value);
+      if (label === undefined) return undefined;
+      return label === value ? { value } : { value: label, reason: "format" };
+    }
+
+    const valid = this.validValues[field];
+    if (!valid) return undefined;
+    if (valid.has(value)) return { value };
+
+    const simple = this.simplify(value);
+    const aliases = this.synonyms.get(field);
+    const lookup = (candidate: string) =>
+      valid.has(candidate) ? candidate : aliases?.get(candidate);
+
+    const cased = valid.has(simple) ? simple : undefined;
+    if (cased) return { value: cased, reason: "case" };
+
+    const synonym = aliases?.get(simple);
+    if (synonym) return { value: synonym, reason: "synonym" };
+
+    for (const singular of this.singulars(simple)) {
+      const match = lookup(singular);
+      if (match) return { value: match, reason: "plural" };
+    }
+
+    const nearMiss = this.closest(simple, valid);
+    if (nearMiss) return { value: nearMiss, reason: "spelling" };
+
+    return undefined;
+  }
+
+  private normalizeGroup(
+    group: unknown,
+    path: string,
+    rewrites: NormalizationRewrite[]
+  ): void {
+    if (!this.isObject(group)) return;
+
+    const { exclude, ranges, anyOf, ...fields } = group;
+
+    this.normalizeFields(group, fields, path, rewrites);
+    if (this.isObject(exclude)) {
+      this.normalizeFields(exclude, exclude, `${path}exclude.`, rewrites);
+    }
+
+    if (this.isObject(ranges)) {
+      for (const [field, range] of Object.entries(ranges)) {
+        if (!this.isObject(range)) continue;
+        for (const bound of ["min", "max"]) {
+          const value = range[bound];
+          if (typeof value !== "string") continue;
+
+          const normalized = this.normalizeValue(field, value);
+          if (normalized?.reason) {
+            range[bound] = normalized.value;
+            rewrites.push({
+              path: `${path}ranges.${field}.${bound}`,
+              from: value,
+              to: normalized.value,
+              reason: normalized.reason,
+            });
+          }
+        }
+      }
+    }
+
+    if (Array.isArray(anyOf)) {
+      anyOf.forEach((alternative, i) =>
+        this.normalizeGroup(alternative, `${path}anyOf[${i}].`, rewrites)
+      );
+    }
+  }
+
+  private normalizeFields(
+    target: Record<string, any>,
+    fields: Record<string, unknown>,
+    path: string,
+    rewrites: NormalizationRewrite[]
+  ): void {
+    for (const [field, values] of Object.entries(fields)) {
+      if (!Array.isArray(values)) continue;
+
+      const normalized = values.map((value) => {
+        if (typeof value !== "string") return value;
+
+        const result = this.normalizeValue(field, value);
+        if (!result?.reason) return value;
+
+        rewrites.push({
+          path: `${path}${field}`,
+          from: value,
+          to: result.value,
+          reason: result.reason,
+        });
+        return result.value;
+      });
+
+      // Two spellings of one value collapse into one
+      target[field] = Array.from(new Set(normalized));
+    }
+  }
+
+  private simplify(value: string): string {
+    return value
+      .trim()
+      .toLowerCase()
+      .replace(/[\s_-]+/g, " ");
+  }
+
+  private singulars(value: string): string[] {
+    const candidates: string[] = [];
+    if (value.endsWith("es")) candidates.push(value.slice(0, -2));
+    if (value.endsWith("s")) candidates.push(value.slice(0, -1));
+    return candidates;
+  }
+
+  /**
+   * The only valid value within a small edit distance, if there is exactly one
+   */
+  private closest(value: string, valid: Set<string>): string | undefined {
+    const maxDistance = value.length >= 7 ? 2 : 1;
+    const matches = Array.from(valid).filter(
+      (candidate) => this.editDistance(value, candidate) <= maxDistance
+    );
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
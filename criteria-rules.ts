@@ -0,0 +1,190 @@
+/**
+ * Semantic rules for parsed criteria
+ *
+ * Validation catches values that don't exist; rules catch values that exist
+ * but don't make sense together ("slab" with "roof", beginner grades with
+ * "tension"). A rule with error severity rejects the LLM output like any
+ * validation error; a warning is reported back to the caller and the
+ * criteria are applied anyway.
+ */
+
+import { OrderedScale } from "./item-schema";
+
+export type RuleSeverity = "error" | "warning";
+
+/**
+ * Read-only view of one criteria group for rules to inspect
+ */
+export interface CriteriaView {
+  values(field: string): string[]; // required values
+  excluded(field: string): string[];
+  // Scale positions of an ordered field's required values and of its range
+  // bounds, when the range is closed, paired with the values as written
+  positions(field: string): [number, string][];
+}
+
+export interface CriteriaRule {
+  name: string;
+  severity: RuleSeverity;
+  description: string;
+  check: (criteria: CriteriaView) => string | undefined; // message if broken
+  // The widest range spanRule allows on a field, so ranges built in code
+  // can stay within it
+  span?: { field: string; maxSpan: number };
+}
+
+export interface RuleViolation {
+  rule: string;
+  severity: RuleSeverity;
+  path: string; // the group that broke it, e.g. "anyOf[1]"
+  message: string;
+}
+
+export class RuleEngine {
+  private rules: CriteriaRule[] = [];
+
+  constructor(
+    private scales: Record<string, OrderedScale>,
+    rules: CriteriaRule[] = []
+  ) {
+    rules.forEach((rule) => this.addRule(rule));
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same name
+   */
+  addRule(rule: CriteriaRule): void {
+    this.rules = [...this.rules.filter((r) => r.name !== rule.name), rule];
+  }
+
+  removeRule(name: string): boolean {
+    const count = this.rules.length;
+    this.rules = this.rules.filter((r) => r.name !== name);
+    return this.rules.length < count;
+  }
+
+  listRules(): CriteriaRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * The narrowest span any rule allows on an ordered field, if one limits it
+   */
+  maxSpan(field: string): number | undefined {
+    const spans = this.rules
+      .filter((rule) => rule.span?.field === field)
+      .map((rule) => rule.span?.maxSpan as number);
+    return spans.length > 0 ? Math.min(...spans) : undefined;
+  }
+
+  /**
+   * Run every rule against a criteria group and each of its "anyOf"
+   * alternatives. Expects output that already passed validation.
+   */
+  check(group: Record<string, any>, path = ""): RuleViolation[] {
+    const view = this.view(group);
+    const violations: RuleViolation[] = [];
+
+    for (const rule of this.rules) {
+      const message = rule.check(view);
+      if (message !== undefined) {
+        violations.push({
+          rule: rule.name,
+          severity: rule.severity,
+          path: path || "root",
+          message,
+        });
+      }
+    }
+
+    if (Array.isArray(group.anyOf)) {
+      group.anyOf.forEach((alternative: Record<string, any>, i: number) => {
+        violations.push(
+          ...this.check(alternative, `${path ? `${path}.` : ""}anyOf[${i}]`)
+        );
+      });
+    }
+
+    return violations;
+  }
+
+  private view(group: Record<string, any>): CriteriaView {
+    const list = (value: unknown): string[] =>
+      Array.isArray(value) ? value : [];
+
+    return {
+      values: (field) => list(group[field]),
+      excluded: (field) => list(group.exclude?.[field]),
+      positions: (field) => {
+        const scale = this.scales[field];
+        if (!scale) return [];
+
+        const range = group.ranges?.[field];
+        const labels = [
+          ...list(group[field]),
+          ...(range?.min !== undefined && range?.max !== undefined
+            ? [range.min, range.max]
+            : []),
+        ];
+        return labels
+          .map((label): [number | undefined, string] => [
+            scale.position(label),
+            label,
+          ])
+          .filter((p): p is [number, string] => p[0] !== undefined);
+      },
+    };
+  }
+}
+
+/**
+ * Flag an ordered field whose values in one group are further apart than
+ * maxSpan, which usually means the constraint was misread
+ */
+export function spanRule(
+  field: string,
+  maxSpan: number,
+  severity: RuleSeverity = "error"
+): CriteriaRule {
+  return {
+    name: `${field}-span`,
+    severity,
+    description: `${field} values at most ${maxSpan} apart`,
+    span: { field, maxSpan },
+    check: (criteria) => {
+      const positions = criteria.positions(field).sort((a, b) => a[0] - b[0]);
+      if (positions.length < 2) return undefined;
+
+      const [low, lowLabel] = positions[0];
+      const [high, highLabel] = positions[positions.length - 1];
+      const span = high - low;
+      return span > maxSpan
+        ? `Range of "${field}" is large (${lowLabel} to ${highLabel}, span of ${span}). LLM may have misunderstood the difficulty constraint.`
+        : undefined;
+    },
+  };
+}
+
+/**
+ * Flag two required values that rarely belong in the same query
+ */
+export function conflictRule(
+  first: [string, string],
+  second: [string, string],
+  severity: RuleSeverity,
+  reason: string
+): CriteriaRule {
+  const [firstField, firstValue] = first;
+  const [secondField, secondValue] = second;
+
+  return {
+    name: `${firstValue}-with-${secondValue}`,
+    severity,
+    description: `"${firstValue}" and "${secondValue}" together: ${reason}`,
+    check: (criteria) =>
+      criteria.values(firstField).includes(firstValue) &&
+      criteria.values(secondField).includes(secondValue)
+        ? `"${firstField}: ${firstValue}" together with "${secondField}: ${secondValue}": ${reason}`
+        : undefined,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Criteria groups as flat lists of values
+ *
+ * Comparing two criteria groups value by value (voting in an ensemble,
+ * scoring a prompt against expected output) is easier on a flat list than
+ * on nested JSON. Each value is written as "field=value",
+ * "exclude.field=value", "ranges.field.min=value" or "anyOf=[...]".
+ * Alternatives stay whole, since their groups only make sense together.
+ */
+
+import { ValueRange } from "./aifilter";
+
+/**
+ * Flatten a criteria group into its values
+ */
+export function criteriaValues(group: Record<string, unknown>): string[] {
+  const { exclude, ranges, anyOf, ...fields } = group as any;
+  const values: string[] = [];
+
+  for (const [key, fieldValues] of Object.entries(fields)) {
+    for (const value of fieldValues as string[]) values.push(`${key}=${value}`);
+  }
+  for (const [key, fieldValues] of Object.entries(exclude ?? {})) {
+    for (const value of fieldValues as string[]) {
+      values.push(`exclude.${key}=${value}`);
+    }
+  }
+  for (const [key, range] of Object.entries(ranges ?? {})) {
+    const { min, max } = range as ValueRange;
+    if (min !== undefined) values.push(`ranges.${key}.min=${min}`);
+    if (max !== undefined) values.push(`ranges.${key}.max=${max}`);
+  }
+  if (anyOf !== undefined) values.push(`anyOf=${sortedJSON(anyOf)}`);
+
+  return values;
+}
+
+/**
+ * Rebuild a criteria group from values written by criteriaValues
+ */
+export function criteriaFromValues(values: string[]): Record<string, unknown> {
+  const group: Record<string, any> = {};
+
+  for (const entry of values) {
+    const separator = entry.indexOf("=");
+    const path = entry.slice(0, separator).split(".");
+    const value = entry.slice(separator + 1);
+
+    if (path[0] === "anyOf") {
+      group.anyOf = JSON.parse(value);
+    } else if (path[0] === "exclude") {
+      group.exclude ??= {};
+      (group.exclude[path[1]] ??= []).push(value);
+    } else if (path[0] === "ranges") {
+      group.ranges ??= {};
+      group.ranges[path[1]] = { ...group.ranges[path[1]], [path[2]]: value };
+    } else {
+      (group[path[0]] ??= []).push(value);
+    }
+  }
+
+  return group;
+}
+
+/**
+ * The field a value belongs to: "grade", "exclude.holdTypes", "ranges.grade"
+ * (both bounds) or "anyOf"
+ */
+export function valueField(value: string): string {
+  const path = value.slice(0, value.indexOf("="));
+  return path.startsWith("ranges.") ? path.replace(/\.(min|max)$/, "") : path;
+}
+
+// JSON with object keys sorted, so equal alternatives written in a different
+// key order compare equal
+function sortedJSON(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "object" && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  );
+}
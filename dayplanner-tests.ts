@@ -4,21 +4,50 @@
  * Demonstrates both manual scheduling and LLM-assisted scheduling
  */
 
+import * as assert from 'assert';
+import * as path from 'path';
+import { loadConfig } from './config';
 import { DayPlanner } from './dayplanner';
-import { GeminiLLM, Config } from './gemini-llm';
+import { CancelledError } from './llm-errors';
+import { LLM } from './llm';
+import { createLLM } from './llm-factory';
+import { RecordingLLM, ReplayLLM } from './llm-fixtures';
+import { MeteredLLM, MetricsCollector } from './llm-metrics';
+import { StreamProgress } from './llm-stream';
+import { MockLLM } from './mock-llm';
+
+const CONFIG = path.join(__dirname, '..', 'config.json');
+const FIXTURES = path.join(__dirname, '..', 'dayplanner-fixtures.json');
+
+// Usage of every fixture LLM call, printed at the end of the run
+const metrics = new MetricsCollector();
 
 /**
- * Load configuration from config.json
+ * The LLM the tests use: recorded responses, so the tests run offline.
+ * With RECORD_FIXTURES=1 the LLM configured in config.json or LLM_*
+ * environment variables answers and is recorded.
  */
-function loadConfig(): Config {
-    try {
-        const config = require('../config.json');
-        return config;
-    } catch (error) {
-        console.error('❌ Error loading config.json. Please ensure it exists with your API key.');
-        console.error('Error details:', (error as Error).message);
-        process.exit(1);
+function fixtureLLM(): LLM {
+    if (process.env.RECORD_FIXTURES) {
+        return new MeteredLLM(new RecordingLLM(createLLM(loadConfig({ path: CONFIG })), FIXTURES), metrics);
+    }
+    return new MeteredLLM(new ReplayLLM(FIXTURES), metrics);
+}
+
+/**
+ * The slot each scheduled activity starts in, by title
+ */
+function startTimes(planner: DayPlanner): { [title: string]: number } {
+    const starts: { [title: string]: number } = {};
+    const schedule = planner.getSchedule();
+    for (let slot = 0; slot < 48; slot++) {
+        for (const activity of schedule[slot]) {
+            if (!(activity.title in starts)) {
+                starts[activity.title] = slot;
+            }
+        }
     }
+    return starts;
 }
 
 /**
@@ -52,7 +81,20 @@ export async function testManualScheduling(): Promise<void> {
     planner.assignActivity(reading, 42); // 9:00 PM
     
     // Display the schedule
-    planner.displaySchedule();
+    const schedule = planner.displaySchedule();
+    console.log(schedule);
+    assert.ok(schedule.includes('7:00 AM - Breakfast (30 min)'));
+    assert.ok(schedule.endsWith('All activities are assigned!'));
+
+    assert.deepStrictEqual(startTimes(planner), {
+        'Breakfast': 14,
+        'Morning Workout': 16,
+        'Study Session': 20,
+        'Lunch': 26,
+        'Team Meeting': 30,
+        'Dinner': 38,
+        'Evening Reading': 42,
+    });
 }
 
 /**
@@ -64,8 +106,7 @@ export async function testLLMScheduling(): Promise<void> {
     console.log('========================================');
     
     const planner = new DayPlanner();
-    const config = loadConfig();
-    const llm = new GeminiLLM(config);
+    const llm = fixtureLLM();
     
     // Add some activities (similar to manual test but different)
     console.log('📝 Adding activities...');
@@ -80,14 +121,25 @@ export async function testLLMScheduling(): Promise<void> {
     
     // Display initial state (all unassigned)
     console.log('\n📋 Initial state - all activities unassigned:');
-    planner.displaySchedule();
+    console.log(planner.displaySchedule());
     
     // Let the LLM assign all activities
     await planner.assignActivities(llm);
     
     // Display the final schedule
     console.log('\n📅 Final schedule after LLM assignment:');
-    planner.displaySchedule();
+    console.log(planner.displaySchedule());
+
+    assert.deepStrictEqual(startTimes(planner), {
+        'Morning Jog': 13,
+        'Coffee Break': 16,
+        'History Class': 18,
+        'Math Homework': 20,
+        'Lunch with Friends': 24,
+        'Project Work': 28,
+        'Gym Session': 34,
+        'Movie Night': 40,
+    });
 }
 
 /**
@@ -99,8 +151,7 @@ export async function testMixedScheduling(): Promise<void> {
     console.log('=================================');
     
     const planner = new DayPlanner();
-    const config = loadConfig();
-    const llm = new GeminiLLM(config);
+    const llm = fixtureLLM();
     
     // Add activities
     console.log('📝 Adding activities...');
@@ -119,14 +170,77 @@ export async function testMixedScheduling(): Promise<void> {
     
     // Display partial schedule
     console.log('\n📅 Partial schedule after manual assignments:');
-    planner.displaySchedule();
+    console.log(planner.displaySchedule());
     
     // Let LLM assign the remaining activities
     await planner.assignActivities(llm);
     
     // Display final schedule
     console.log('\n📅 Final schedule after LLM assignment:');
-    planner.displaySchedule();
+    console.log(planner.displaySchedule());
+
+    // The manual assignments are kept; the LLM fills in the rest
+    assert.deepStrictEqual(startTimes(planner), {
+        'Breakfast': 14,
+        'Morning Workout': 16,
+        'Study Session': 20,
+        'Lunch': 24,
+        'Team Meeting': 28,
+        'Dinner': 37,
+        'Evening Reading': 40,
+    });
+}
+
+/**
+ * Test case 4: Streamed scheduling
+ * Shows progress while the answer arrives, stops reading once the
+ * assignments are complete, and can be cancelled
+ */
+export async function testStreamingScheduling(): Promise<void> {
+    console.log('\n🧪 TEST CASE 4: Streamed Scheduling');
+    console.log('====================================');
+
+    const answer = JSON.stringify({
+        assignments: [
+            { title: 'Breakfast', startTime: 14 },
+            { title: 'Study Session', startTime: 18 },
+        ],
+    });
+    const chatter = '\nBreakfast first, so you have energy for studying. Let me know if you want changes!';
+
+    const planner = new DayPlanner();
+    planner.addActivity('Breakfast', 1);
+    planner.addActivity('Study Session', 3);
+    const llm = new MockLLM([answer + chatter], { chunkSize: 10 });
+    const progress: StreamProgress[] = [];
+    await planner.assignActivities(llm, {
+        onProgress: (update) => {
+            progress.push(update);
+            console.log(`📶 ${update.text.length} characters received`);
+        },
+    });
+    console.log(planner.displaySchedule());
+
+    assert.deepStrictEqual(startTimes(planner), { 'Breakfast': 14, 'Study Session': 18 });
+    // Reading stopped at the chunk that closed the object, before the chatter
+    assert.strictEqual(llm.chunksSent, Math.ceil(answer.length / 10));
+    assert.strictEqual(progress.length, llm.chunksSent);
+    assert.ok(progress[progress.length - 1].text.startsWith(answer));
+
+    // Cancelling partway leaves the schedule as it was
+    const cancelled = new DayPlanner();
+    cancelled.addActivity('Breakfast', 1);
+    const controller = new AbortController();
+    const slow = new MockLLM([answer], { chunkSize: 10 });
+    await assert.rejects(
+        cancelled.assignActivities(slow, {
+            signal: controller.signal,
+            onProgress: () => controller.abort(),
+        }),
+        CancelledError
+    );
+    assert.strictEqual(slow.chunksSent, 1);
+    assert.deepStrictEqual(startTimes(cancelled), {});
 }
 
 /**
@@ -146,6 +260,10 @@ async function main(): Promise<void> {
         // Run mixed scheduling test
         await testMixedScheduling();
         
+        // Run streamed scheduling test
+        await testStreamingScheduling();
+        
+        console.log('\n' + metrics.format());
         console.log('\n🎉 All test cases completed successfully!');
         
     } catch (error) {
@@ -43,7 +43,7 @@ actions
         requires assignment for activity exists
         effect removes assignment for activity
 
-    async assignActivities(llm: GeminiLLM)
+    async assignActivities(llm: LLM)
         effect uses llm to assign all unassigned activities    
 
 notes
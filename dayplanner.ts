@@ -1,6 +1,9 @@
 
 
-import { GeminiLLM } from './gemini-llm';
+import { LLM } from './llm';
+import { JSONSchema, parseJSONObject } from './llm-json';
+import { collectStream, StreamOptions } from './llm-stream';
+import { Logger, silentLogger } from './logger';
 
 // A single activity that can be scheduled
 export interface Activity {
@@ -14,10 +17,34 @@ export interface Activity {
     startTime: number; // in half-hour slots from midnight
 }
 
+// Shape of the LLM's answer, for providers with structured output
+const ASSIGNMENTS_SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        assignments: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    startTime: { type: 'integer' },
+                },
+                required: ['title', 'startTime'],
+            },
+        },
+    },
+    required: ['assignments'],
+};
+
 export class DayPlanner {
     private activities: Activity[] = [];
     private assignments: Assignment[] = [];
 
+    /**
+     * @param logger receives progress, raw LLM responses and errors; silent if omitted
+     */
+    constructor(private logger: Logger = silentLogger) {}
+
     addActivity(title: string, duration: number): Activity {
         const activity: Activity = {
             title,
@@ -52,33 +79,42 @@ export class DayPlanner {
         this.assignments = this.assignments.filter(assignment => assignment.activity !== activity);
     }
 
-    async assignActivities(llm: GeminiLLM): Promise<void> {
+    /**
+     * Ask the LLM to place every unassigned activity. Given onProgress or a
+     * signal, the answer is streamed where the LLM can stream: onProgress
+     * hears about every chunk, reading stops once the assignments object is
+     * complete, and aborting the signal cancels the call with a
+     * CancelledError.
+     */
+    async assignActivities(llm: LLM, options: StreamOptions = {}): Promise<void> {
         try {
-            console.log('🤖 Requesting schedule assignments from Gemini AI...');
+            this.logger.info('Requesting schedule assignments from LLM...');
             
             const unassignedActivities = this.activities.filter(a => !this.isAssigned(a));
 
             if (unassignedActivities.length === 0) {
-                console.log('✅ All activities are already assigned!');
+                this.logger.info('All activities are already assigned');
                 return;
             }
 
             const existingAssignments = this.assignments.slice();
 
             const prompt = this.createAssignmentPrompt(unassignedActivities, existingAssignments);
-            const text = await llm.executeLLM(prompt);
+            const call = {
+                responseSchema: ASSIGNMENTS_SCHEMA,
+                context: { concept: 'DayPlanner', action: 'assignActivities' },
+            };
+            const text = options.onProgress || options.signal
+                ? await collectStream(llm, prompt, { ...call, ...options, stopWhenComplete: true })
+                : await llm.executeLLM(prompt, call);
             
-            console.log('✅ Received response from Gemini AI!');
-            console.log('\n🤖 RAW GEMINI RESPONSE');
-            console.log('======================');
-            console.log(text);
-            console.log('======================\n');
+            this.logger.debug('Received response from LLM', { response: text });
             
             // Parse and apply the assignments
             this.parseAndApplyAssignments(text, unassignedActivities);
             
         } catch (error) {
-            console.error('❌ Error calling Gemini API:', (error as Error).message);
+            this.logger.error('Error calling LLM', { error: (error as Error).message });
             throw error;
         }
     }
@@ -92,7 +128,7 @@ export class DayPlanner {
         (assignment) => assignment.activity === activity);
     }
     /**
-     * Create the prompt for Gemini with hardwired preferences
+     * Create the prompt for the LLM with hardwired preferences
      */
     private createAssignmentPrompt(activities: Activity[], existingAssignments: Assignment[]): string {
         const existingAssignmentsSection = existingAssignments.length > 0
@@ -155,18 +191,13 @@ Return ONLY the JSON object, no additional text.`;
     private parseAndApplyAssignments(responseText: string, unassignedActivities: Activity[]): void {
         try {
             // Extract JSON from response (in case there's extra text)
-            const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-            if (!jsonMatch) {
-                throw new Error('No JSON found in response');
-            }
-
-            const response = JSON.parse(jsonMatch[0]);
+            const response = parseJSONObject(responseText);
             
             if (!response.assignments || !Array.isArray(response.assignments)) {
                 throw new Error('Invalid response format');
             }
 
-            console.log('📝 Applying LLM assignments...');
+            this.logger.debug('Applying LLM assignments...');
 
             const activitiesByTitle = new Map<string, Activity[]>();
             for (const activity of unassignedActivities) {
@@ -252,12 +283,17 @@ Return ONLY the JSON object, no additional text.`;
 
             for (const assignment of validatedAssignments) {
                 this.assignActivity(assignment.activity, assignment.startTime);
-                console.log(`✅ Assigned "${assignment.activity.title}" to ${this.formatTimeSlot(assignment.startTime)}`);
+                this.logger.info(`Assigned "${assignment.activity.title}" to ${this.formatTimeSlot(assignment.startTime)}`, {
+                    activity: assignment.activity.title,
+                    startTime: assignment.startTime,
+                });
             }
             
         } catch (error) {
-            console.error('❌ Error parsing LLM response:', (error as Error).message);
-            console.log('Response was:', responseText);
+            this.logger.error('Error parsing LLM response', {
+                error: (error as Error).message,
+                response: responseText,
+            });
             throw error;
         }
     }
@@ -322,13 +358,12 @@ Return ONLY the JSON object, no additional text.`;
     }
 
     /**
-     * Display the current schedule in a readable format
+     * The current schedule in a readable format
      */
-    displaySchedule(): void {
+    displaySchedule(): string {
         const schedule = this.getSchedule();
         
-        console.log('\n📅 Daily Schedule');
-        console.log('==================');
+        const lines = ['📅 Daily Schedule', '=================='];
         
         let hasActivities = false;
         
@@ -347,26 +382,26 @@ Return ONLY the JSON object, no additional text.`;
                     const uniqueActivities = [...new Set(activities)];
                     for (const activity of uniqueActivities) {
                         const durationStr = activity.duration === 1 ? '30 min' : `${activity.duration * 0.5} hours`;
-                        console.log(`${timeStr} - ${activity.title} (${durationStr})`);
+                        lines.push(`${timeStr} - ${activity.title} (${durationStr})`);
                     }
                 }
             }
         }
         
         if (!hasActivities) {
-            console.log('No activities scheduled yet.');
+            lines.push('No activities scheduled yet.');
         }
         
-        console.log('\n📋 Unassigned Activities');
-        console.log('========================');
+        lines.push('', '📋 Unassigned Activities', '========================');
         const unassigned = this.activities.filter(a => !this.isAssigned(a));
         if (unassigned.length > 0) {
             unassigned.forEach(activity => {
                 const durationStr = activity.duration === 1 ? '30 min' : `${activity.duration * 0.5} hours`;
-                console.log(`- ${activity.title} (${durationStr})`);
+                lines.push(`- ${activity.title} (${durationStr})`);
             });
         } else {
-            console.log('All activities are assigned!');
+            lines.push('All activities are assigned!');
         }
+        return lines.join('\n');
     }
 }
\ No newline at end of file
@@ -1,36 +1,271 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { GenerationSettings, LLM, LLMCallOptions, mergeGeneration, SafetySetting } from './llm';
+import { CancelledError, classifyError } from './llm-errors';
+import { JSONSchema } from './llm-json';
+import { RetryPolicy, resolveRetryPolicy, withRetry, withTimeout } from './llm-retry';
+import { Logger, silentLogger } from './logger';
+import { RateLimit, RateLimiter } from './rate-limiter';
+
+/**
+ * One call to the Gemini API, as handed to a transport
+ */
+export interface GeminiRequest {
+    apiKey: string;
+    model: string;
+    prompt: string;
+    maxOutputTokens: number;
+    temperature?: number;
+    topP?: number;
+    safetySettings?: SafetySetting[];
+    responseSchema?: JSONSchema; // asks for JSON output matching it
+    signal: AbortSignal; // aborted when the call times out
+}
+
+/**
+ * Response text with the token counts the API reported
+ */
+export interface GeminiResponse {
+    text: string;
+    promptTokens?: number;
+    outputTokens?: number;
+}
+
+/**
+ * Sends a request and returns the response. The default goes through the
+ * Google SDK; tests pass a fake one.
+ */
+export type GeminiTransport = (request: GeminiRequest) => Promise<GeminiResponse>;
+
+/**
+ * Sends a request and yields the response in chunks. Token counts come
+ * with the last chunks.
+ */
+export type GeminiStreamTransport = (request: GeminiRequest) => AsyncIterable<GeminiResponse>;
 
 /**
  * Configuration for API access
  */
-export interface Config {
+export interface GeminiConfig extends GenerationSettings {
     apiKey: string;
+    timeoutMs?: number; // per attempt, default 30000
+    retry?: Partial<RetryPolicy>;
+    rateLimit?: RateLimit;
+    structuredOutput?: boolean; // send response schemas to the API, default true
+    transport?: GeminiTransport;
+    streamTransport?: GeminiStreamTransport;
+    logger?: Logger; // retries and errors; silent if omitted
+}
+
+/**
+ * The config's old name, kept for existing imports
+ * @deprecated Use GeminiConfig. This is not the provider-independent
+ * Config in llm.ts, which createLLM takes.
+ */
+export type Config = GeminiConfig;
+
+function sdkModel(request: GeminiRequest) {
+    return new GoogleGenerativeAI(request.apiKey).getGenerativeModel({
+        model: request.model,
+        safetySettings: request.safetySettings?.map((setting) => ({
+            category: setting.category as HarmCategory,
+            threshold: setting.threshold as HarmBlockThreshold,
+        })),
+        generationConfig: {
+            maxOutputTokens: request.maxOutputTokens,
+            temperature: request.temperature,
+            topP: request.topP,
+            ...(request.responseSchema ? {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(request.responseSchema),
+            } : {}),
+        }
+    });
 }
 
-export class GeminiLLM {
+const sdkTransport: GeminiTransport = async (request) => {
+    const result = await sdkModel(request).generateContent(request.prompt, { signal: request.signal });
+    const response = await result.response;
+    return {
+        text: response.text(),
+        promptTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount,
+    };
+};
+
+const sdkStreamTransport: GeminiStreamTransport = async function* (request) {
+    const result = await sdkModel(request).generateContentStream(request.prompt, { signal: request.signal });
+    for await (const chunk of result.stream) {
+        yield {
+            text: chunk.text(),
+            promptTokens: chunk.usageMetadata?.promptTokenCount,
+            outputTokens: chunk.usageMetadata?.candidatesTokenCount,
+        };
+    }
+};
+
+/**
+ * Gemini's schema is OpenAPI-flavored: string enums need format "enum"
+ */
+function toGeminiSchema(schema: JSONSchema): ResponseSchema {
+    const { items, properties, ...rest } = schema;
+    return {
+        ...rest,
+        type: schema.type as SchemaType,
+        ...(schema.enum ? { format: 'enum' } : {}),
+        ...(items ? { items: toGeminiSchema(items) } : {}),
+        ...(properties ? {
+            properties: Object.fromEntries(
+                Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)])
+            ),
+        } : {}),
+    };
+}
+
+export class GeminiLLM implements LLM {
     private apiKey: string;
+    private generation: GenerationSettings;
+    private timeoutMs: number;
+    private retryPolicy: RetryPolicy;
+    private limiter: RateLimiter;
+    private structuredOutput: boolean;
+    private transport: GeminiTransport;
+    private streamTransport: GeminiStreamTransport;
+    private logger: Logger;
 
-    constructor(config: Config) {
+    constructor(config: GeminiConfig) {
         this.apiKey = config.apiKey;
+        this.generation = {
+            model: config.model ?? 'gemini-2.5-flash-lite',
+            temperature: config.temperature,
+            topP: config.topP,
+            maxOutputTokens: config.maxOutputTokens ?? 1000,
+            safetySettings: config.safetySettings,
+        };
+        this.timeoutMs = config.timeoutMs ?? 30000;
+        this.retryPolicy = resolveRetryPolicy(config.retry);
+        this.limiter = new RateLimiter(config.rateLimit);
+        this.structuredOutput = config.structuredOutput ?? true;
+        this.transport = config.transport ?? sdkTransport;
+        this.streamTransport = config.streamTransport ?? sdkStreamTransport;
+        this.logger = config.logger ?? silentLogger;
     }
 
-    async executeLLM (prompt: string): Promise<string> {
+    settings(): Record<string, unknown> {
+        return { provider: 'gemini', ...this.generation };
+    }
+
+    /**
+     * Send prompt to Gemini. Every attempt waits its turn in the rate
+     * limiter and has its own timeout; quota, timeout and server errors are
+     * retried with backoff. Failures are thrown as LLMError subclasses;
+     * aborting the signal in the call options cancels the call, waiting or
+     * not, with a CancelledError. A response schema switches the API to JSON output matching it, and
+     * generation settings given for the call override the configured ones.
+     * Token counts and latency go to the onUsage hook.
+     */
+    async executeLLM (prompt: string, options: LLMCallOptions = {}): Promise<string> {
+        const responseSchema = this.structuredOutput ? options.responseSchema : undefined;
+        const generation = mergeGeneration(this.generation, options.generation);
+        const started = Date.now();
+        let attempts = 0;
         try {
-            // Initialize Gemini AI
-            const genAI = new GoogleGenerativeAI(this.apiKey);
-            const model = genAI.getGenerativeModel({ 
-                model: "gemini-2.5-flash-lite",
-                generationConfig: {
-                    maxOutputTokens: 1000,
-                }
+            const response = await withRetry(
+                () => this.limiter.schedule(() => withTimeout(
+                    (signal) => {
+                        attempts++;
+                        return this.transport({
+                            apiKey: this.apiKey,
+                            ...generation,
+                            model: generation.model as string,
+                            prompt,
+                            maxOutputTokens: generation.maxOutputTokens as number,
+                            responseSchema,
+                            signal,
+                        });
+                    },
+                    this.timeoutMs,
+                    options.signal
+                ), options.signal),
+                this.retryPolicy,
+                (error, retry, delayMs) => this.logger.warn(
+                    `${error.name}: ${error.message}; retry ${retry + 1}/${this.retryPolicy.maxRetries} in ${delayMs}ms`,
+                    { provider: 'gemini', model: generation.model, retry: retry + 1, delayMs }
+                )
+            );
+            options.onUsage?.({
+                provider: 'gemini',
+                model: generation.model,
+                promptTokens: response.promptTokens,
+                outputTokens: response.outputTokens,
+                latencyMs: Date.now() - started,
+                attempts,
             });
-            // Execute the LLM
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-            return text;            
+            return response.text;
         } catch (error) {
-            console.error('❌ Error calling Gemini API:', (error as Error).message);
+            this.logger.error('Error calling Gemini API', {
+                provider: 'gemini',
+                model: generation.model,
+                error: (error as Error).message,
+            });
             throw error;
-        }    }
+        }
+    }
+
+    /**
+     * Stream the response to prompt. The stream waits its turn in the rate
+     * limiter and holds its slot until it ends. It is neither retried nor
+     * timed out, since chunks already yielded can't be taken back; abort
+     * the signal in the call options to cancel it, even while it waits
+     * in the limiter. A reader that stops early ends the request.
+     */
+    async *streamLLM (prompt: string, options: LLMCallOptions = {}): AsyncGenerator<string> {
+        const responseSchema = this.structuredOutput ? options.responseSchema : undefined;
+        const generation = mergeGeneration(this.generation, options.generation);
+        const started = Date.now();
+        const release = await this.limiter.acquire(options.signal);
+        const controller = new AbortController();
+        const cancel = () => controller.abort();
+        options.signal?.addEventListener('abort', cancel);
+        let promptTokens: number | undefined;
+        let outputTokens: number | undefined;
+
+        try {
+            if (options.signal?.aborted) throw new CancelledError();
+            const chunks = this.streamTransport({
+                apiKey: this.apiKey,
+                ...generation,
+                model: generation.model as string,
+                prompt,
+                maxOutputTokens: generation.maxOutputTokens as number,
+                responseSchema,
+                signal: controller.signal,
+            });
+            for await (const chunk of chunks) {
+                if (options.signal?.aborted) throw new CancelledError();
+                promptTokens = chunk.promptTokens ?? promptTokens;
+                outputTokens = chunk.outputTokens ?? outputTokens;
+                if (chunk.text) yield chunk.text;
+            }
+            options.onUsage?.({
+                provider: 'gemini',
+                model: generation.model,
+                promptTokens,
+                outputTokens,
+                latencyMs: Date.now() - started,
+                attempts: 1,
+            });
+        } catch (error) {
+            const failure = options.signal?.aborted ? new CancelledError() : classifyError(error);
+            this.logger.error('Error streaming from Gemini API', {
+                provider: 'gemini',
+                model: generation.model,
+                error: failure.message,
+            });
+            throw failure;
+        } finally {
+            options.signal?.removeEventListener('abort', cancel);
+            controller.abort();
+            release();
+        }
+    }
 }
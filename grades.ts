@@ -0,0 +1,151 @@
+/**
+ * Climbing grades as ordered values
+ *
+ * Every grade is placed on the V-scale (V0-V17) so grades from different
+ * systems can be compared and converted. Fontainebleau and YDS grades are
+ * mapped through the usual conversion charts; conversions are approximate by
+ * nature, so several grades of one system can share a V-scale value.
+ */
+
+export type GradeSystem = "V" | "Font" | "YDS";
+
+export interface Grade {
+  system: GradeSystem;
+  label: string;
+  value: number; // position on the V-scale
+}
+
+export const MIN_GRADE_VALUE = 0;
+export const MAX_GRADE_VALUE = 17;
+
+// Fontainebleau grade → V-scale value
+const FONT_GRADES: [string, number][] = [
+  ["4", 0],
+  ["5", 1],
+  ["5+", 2],
+  ["6A", 3],
+  ["6A+", 3],
+  ["6B", 4],
+  ["6B+", 4],
+  ["6C", 5],
+  ["6C+", 5],
+  ["7A", 6],
+  ["7A+", 7],
+  ["7B", 8],
+  ["7B+", 8],
+  ["7C", 9],
+  ["7C+", 10],
+  ["8A", 11],
+  ["8A+", 12],
+  ["8B", 13],
+  ["8B+", 14],
+  ["8C", 15],
+  ["8C+", 16],
+  ["9A", 17],
+];
+
+// YDS grade → V-scale value
+const YDS_GRADES: [string, number][] = [
+  ["5.10a", 0],
+  ["5.10b", 0],
+  ["5.10c", 1],
+  ["5.10d", 1],
+  ["5.11a", 2],
+  ["5.11b", 2],
+  ["5.11c", 3],
+  ["5.11d", 3],
+  ["5.12a", 4],
+  ["5.12b", 4],
+  ["5.12c", 5],
+  ["5.12d", 5],
+  ["5.13a", 6],
+  ["5.13b", 7],
+  ["5.13c", 8],
+  ["5.13d", 9],
+  ["5.14a", 10],
+  ["5.14b", 11],
+  ["5.14c", 12],
+  ["5.14d", 13],
+  ["5.15a", 14],
+  ["5.15b", 15],
+  ["5.15c", 16],
+  ["5.15d", 17],
+];
+
+const FONT_VALUES = new Map(FONT_GRADES);
+const YDS_VALUES = new Map(YDS_GRADES);
+
+/**
+ * Parse a grade label in any supported system, tolerating case and stray
+ * spaces ("v 5", "6b+", "5.12A"). Returns undefined for unknown grades.
+ */
+export function parseGrade(label: string): Grade | undefined {
+  const compact = label.trim().replace(/\s+/g, "");
+
+  const vMatch = compact.match(/^v(\d{1,2})$/i);
+  if (vMatch) {
+    const value = parseInt(vMatch[1]);
+    if (value < MIN_GRADE_VALUE || value > MAX_GRADE_VALUE) return undefined;
+    return { system: "V", label: `V${value}`, value };
+  }
+
+  const ydsLabel = compact.toLowerCase();
+  const ydsValue = YDS_VALUES.get(ydsLabel);
+  if (ydsValue !== undefined) {
+    return { system: "YDS", label: ydsLabel, value: ydsValue };
+  }
+
+  const fontLabel = compact.toUpperCase();
+  const fontValue = FONT_VALUES.get(fontLabel);
+  if (fontValue !== undefined) {
+    return { system: "Font", label: fontLabel, value: fontValue };
+  }
+
+  return undefined;
+}
+
+export function isValidGrade(label: string): boolean {
+  return parseGrade(label) !== undefined;
+}
+
+/**
+ * V-scale value of a grade label, or undefined if it can't be parsed
+ */
+export function gradeValue(label: string): number | undefined {
+  return parseGrade(label)?.value;
+}
+
+/**
+ * Grade label for a V-scale value in the given system. Where several grades
+ * share a value, the lowest one is used (V3 → 6A, V4 → 5.12a).
+ */
+export function gradeLabel(value: number, system: GradeSystem): string {
+  const clamped = Math.min(
+    MAX_GRADE_VALUE,
+    Math.max(MIN_GRADE_VALUE, Math.round(value))
+  );
+
+  if (system === "V") return `V${clamped}`;
+
+  const table = system === "Font" ? FONT_GRADES : YDS_GRADES;
+  return (table.find(([, v]) => v === clamped) as [string, number])[0];
+}
+
+/**
+ * Convert a grade label into another system, e.g. "7A" → "V6"
+ */
+export function convertGrade(
+  label: string,
+  system: GradeSystem
+): string | undefined {
+  const grade = parseGrade(label);
+  return grade ? gradeLabel(grade.value, system) : undefined;
+}
+
+export function describeGradeSystems(): string {
+  return `V-scale V${MIN_GRADE_VALUE}-V${MAX_GRADE_VALUE}, Fontainebleau ${
+    FONT_GRADES[0][0]
+  }-${FONT_GRADES[FONT_GRADES.length - 1][0]}, YDS ${YDS_GRADES[0][0]}-${
+    YDS_GRADES[YDS_GRADES.length - 1][0]
+  }`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Item schemas
+ *
+ * A schema tells AIFilter what the items it searches look like: which fields
+ * can be filtered on, whether each holds one value or several, which values
+ * are allowed and how to describe them to the LLM. Prompts, validators and
+ * the normalizer are all generated from it, so the same AIFilter works for
+ * climbing routes, board problems, gym circuits or exercises.
+ */
+
+import { CriteriaRule } from "./criteria-rules";
+
+export type FieldKind = "single" | "multi";
+
+/**
+ * Places the values of an ordered field (like climbing grades) on a numeric
+ * scale so they can be compared, converted and filtered by range
+ */
+export interface OrderedScale {
+  position: (value: string) => number | undefined;
+  canonical: (value: string) => string | undefined; // e.g. "v 5" → "V5"
+  describe: () => string; // the accepted values, for prompts and errors
+  examples: [string, string]; // a low and a high value, for prompt examples
+  // Values that also read as ordinary words or numbers ("5" is a Font grade
+  // and a count). The rule parser reads them from free text only right
+  // after one of the keywords.
+  bare?: (value: string) => boolean;
+  keywords?: string[]; // e.g. "grade", "font"
+}
+
+export interface FieldSchema {
+  label: string; // shown in prompts and results, e.g. "Hold Types"
+  kind: FieldKind;
+  values?: string[]; // allowed values of an unordered field
+  valueDescriptions?: Record<string, string>; // e.g. crimp: "small edges"
+  scale?: OrderedScale; // makes the field ordered instead
+  synonyms?: Record<string, string>; // slang → allowed value
+  weight?: number; // importance in ranked search, 1 if omitted
+}
+
+export interface PromptExample {
+  query: string;
+  output: Record<string, unknown>;
+}
+
+export interface ItemSchema<Item> {
+  itemName: string; // e.g. "climbing route"
+  itemNamePlural: string; // e.g. "climbing routes"
+  domain: string; // whose terminology the LLM must know, e.g. "climbing"
+  nameOf: (item: Item) => string;
+  fields: { [K in keyof Item & string]?: FieldSchema };
+  hints?: string[]; // colloquial terms → values, e.g. '"juggy" = jug'
+  difficultyHints?: string[]; // used when there is no climber profile
+  examples?: PromptExample[];
+  difficultyField?: string; // ordered field a ClimberProfile calibrates
+  rules?: CriteriaRule[]; // contradictions and suspect combinations
+}
+
+// Keys with a meaning of their own in LLM answers, so never field names
+const RESERVED_KEYS = [
+  "exclude",
+  "ranges",
+  "anyOf",
+  "ambiguous",
+  "interpretations",
+  "add",
+  "remove",
+  "replace",
+  "expression",
+];
+
+/**
+ * Check that a schema is usable: every field is either ordered or lists its
+ * allowed values, synonyms point at allowed values and the difficulty field
+ * is ordered
+ */
+export function validateSchema<Item>(schema: ItemSchema<Item>): void {
+  const fields = schemaFields(schema);
+  if (fields.length === 0) {
+    throw new Error(`Schema for ${schema.itemName} has no fields`);
+  }
+
+  for (const [key, field] of fields) {
+    if (RESERVED_KEYS.includes(key)) {
+      throw new Error(`Field name "${key}" is reserved`);
+    }
+    if (field.scale && field.values) {
+      throw new Error(`Field "${key}" cannot have both a scale and values`);
+    }
+    if (!field.scale && !field.values?.length) {
+      throw new Error(`Field "${key}" needs a scale or allowed values`);
+    }
+
+    for (const [alias, value] of Object.entries(field.synonyms ?? {})) {
+      if (!field.values?.includes(value)) {
+        throw new Error(
+          `Synonym "${alias}" of field "${key}" maps to "${value}", which is not an allowed value`
+        );
+      }
+    }
+  }
+
+  if (
+    schema.difficultyField !== undefined &&
+    !orderedFields(schema)[schema.difficultyField]
+  ) {
+    throw new Error(
+      `Difficulty field "${schema.difficultyField}" is not an ordered field`
+    );
+  }
+}
+
+export function schemaFields<Item>(
+  schema: ItemSchema<Item>
+): [string, FieldSchema][] {
+  return Object.entries(schema.fields).filter(
+    (entry): entry is [string, FieldSchema] => entry[1] !== undefined
+  );
+}
+
+/**
+ * Allowed values of every unordered field
+ */
+export function validValues<Item>(
+  schema: ItemSchema<Item>
+): Record<string, Set<string>> {
+  const values: Record<string, Set<string>> = {};
+  for (const [key, field] of schemaFields(schema)) {
+    if (field.values) values[key] = new Set(field.values);
+  }
+  return values;
+}
+
+/**
+ * Scale of every ordered field
+ */
+export function orderedFields<Item>(
+  schema: ItemSchema<Item>
+): Record<string, OrderedScale> {
+  const scales: Record<string, OrderedScale> = {};
+  for (const [key, field] of schemaFields(schema)) {
+    if (field.scale) scales[key] = field.scale;
+  }
+  return scales;
+}
@@ -0,0 +1,342 @@
+/**
+ * Response cache for LLM calls
+ *
+ * The same query with the same prompt variant builds the same prompt, so
+ * its answer can be reused instead of paying for another call. CachedLLM
+ * wraps any LLM and keys each response on the prompt together with the
+ * model and generation settings that produced it, so switching models or
+ * token limits never serves a stale answer. Entries live in memory or in a
+ * JSON file on disk, each with an optional TTL and entry limit.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { LLMError } from "./llm-errors";
+import { LLM, LLMCallOptions } from "./llm";
+import { completeJSONObject } from "./llm-json";
+import { streamOf } from "./llm-stream";
+import { Logger, silentLogger } from "./logger";
+
+export interface CacheEntry {
+  response: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheLimits {
+  ttlMs?: number; // entries older than this are misses; no expiry if omitted
+  maxEntries?: number; // least recently used entries go first; no limit if omitted
+}
+
+/**
+ * "normal" reads and writes the cache. "bypass" always calls the LLM and
+ * stores the fresh answer. "only" never calls the LLM: a miss fails with a
+ * CacheMissError.
+ */
+export type CacheMode = "normal" | "bypass" | "only";
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  bypassed: number;
+  entries: number;
+}
+
+/**
+ * Thrown in "only" mode when a prompt has no cached response
+ */
+export class CacheMissError extends LLMError {
+  constructor(readonly key: string) {
+    super(
+      `No cached response for prompt ${key} and the cache is in "only" mode`
+    );
+  }
+}
+
+export class MemoryCacheStore {
+  protected entries = new Map<string, CacheEntry>(); // least recently used first
+
+  constructor(protected limits: CacheLimits = {}) {
+    const { ttlMs, maxEntries } = limits;
+    if (ttlMs !== undefined && !(typeof ttlMs === "number" && ttlMs > 0)) {
+      throw new Error(`ttlMs must be positive, got ${ttlMs}`);
+    }
+    if (
+      maxEntries !== undefined &&
+      !(Number.isInteger(maxEntries) && maxEntries > 0)
+    ) {
+      throw new Error(
+        `maxEntries must be a positive integer, got ${maxEntries}`
+      );
+    }
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (this.expired(entry)) {
+      this.delete(key);
+      return undefined;
+    }
+    entry.lastUsedAt = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, response: string): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { response, createdAt: now, lastUsedAt: now });
+
+    const { maxEntries } = this.limits;
+    for (const oldest of this.entries.keys()) {
+      if (maxEntries === undefined || this.entries.size <= maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  protected expired(entry: CacheEntry): boolean {
+    return (
+      this.limits.ttlMs !== undefined &&
+      Date.now() - entry.createdAt >= this.limits.ttlMs
+    );
+  }
+}
+
+/**
+ * A memory store loaded from and saved to a JSON file, so answers survive
+ * between runs. Expired entries are dropped on load. A file that isn't a
+ * JSON object of entries is logged and treated as an empty cache, and
+ * entries that aren't well formed are logged and dropped; either is
+ * overwritten on the next write.
+ */
+export class DiskCacheStore extends MemoryCacheStore {
+  constructor(
+    private path: string,
+    limits: CacheLimits = {},
+    logger: Logger = silentLogger
+  ) {
+    super(limits);
+    if (!fs.existsSync(path)) return;
+
+    let saved: unknown;
+    try {
+      saved = JSON.parse(fs.readFileSync(path, "utf8"));
+    } catch (error) {
+      logger.warn(`Ignoring unreadable cache file ${path}`, {
+        path,
+        error: (error as Error).message,
+      });
+      return;
+    }
+    if (typeof saved !== "object" || saved === null || Array.isArray(saved)) {
+      logger.warn(`Ignoring unreadable cache file ${path}`, {
+        path,
+        error: "Expected a JSON object of cache entries",
+      });
+      return;
+    }
+
+    const entries = Object.entries(saved);
+    const valid = entries.filter((pair): pair is [string, CacheEntry] =>
+      isCacheEntry(pair[1])
+    );
+    if (valid.length < entries.length) {
+      logger.warn(
+        `Dropping ${entries.length - valid.length} malformed entries from cache file ${path}`,
+        { path, dropped: entries.length - valid.length }
+      );
+    }
+    const live = valid
+      .filter(([, entry]) => !this.expired(entry))
+      .sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+    this.entries = new Map(live.slice(-(limits.maxEntries ?? live.length)));
+  }
+
+  set(key: string, response: string): void {
+    super.set(key, response);
+    this.save();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.save();
+  }
+
+  clear(): void {
+    super.clear();
+    this.save();
+  }
+
+  private save(): void {
+    fs.writeFileSync(
+      this.path,
+      JSON.stringify(Object.fromEntries(this.entries), null, 2) + "\n"
+    );
+  }
+}
+
+export class CachedLLM implements LLM {
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+
+  constructor(
+    private llm: LLM,
+    private store: MemoryCacheStore = new MemoryCacheStore(),
+    private mode: CacheMode = "normal",
+    private logger: Logger = silentLogger
+  ) {}
+
+  async executeLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<string> {
+    const key = this.key(prompt, options);
+    const started = Date.now();
+
+    if (this.mode === "bypass") {
+      this.bypassed++;
+    } else {
+      const entry = this.store.get(key);
+      if (entry) {
+        this.hits++;
+        this.logger.debug(`Cache hit for prompt ${key}`, { key });
+        options.onUsage?.({
+          provider: String(this.settings().provider ?? "unknown"),
+          model: this.settings().model as string | undefined,
+          promptTokens: 0,
+          outputTokens: 0,
+          latencyMs: Date.now() - started,
+          cached: true,
+        });
+        return entry.response;
+      }
+      this.misses++;
+      if (this.mode === "only") throw new CacheMissError(key);
+    }
+
+    const response = await this.llm.executeLLM(prompt, options);
+    this.store.set(key, response);
+    return response;
+  }
+
+  /**
+   * A hit is streamed as one chunk. A miss streams from the LLM and is
+   * stored when read to the end. A stream stopped early, as the concepts
+   * stop theirs once the answer's JSON object is complete, stores that
+   * object; one stopped before it, or failing, stores nothing.
+   */
+  async *streamLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<string> {
+    const key = this.key(prompt, options);
+    if (this.mode !== "bypass" && this.store.get(key)) {
+      yield await this.executeLLM(prompt, options);
+      return;
+    }
+
+    if (this.mode === "bypass") this.bypassed++;
+    else this.misses++;
+    if (this.mode === "only") throw new CacheMissError(key);
+
+    let response = "";
+    let finished = false;
+    let failed = false;
+    try {
+      for await (const chunk of streamOf(this.llm, prompt, options)) {
+        response += chunk;
+        yield chunk;
+      }
+      finished = true;
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      const answer = finished ? response : completeJSONObject(response);
+      if (!failed && answer !== undefined) this.store.set(key, answer);
+    }
+  }
+
+  settings(): Record<string, unknown> {
+    return this.llm.settings?.() ?? {};
+  }
+
+  setMode(mode: CacheMode): void {
+    this.mode = mode;
+  }
+
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      bypassed: this.bypassed,
+      entries: this.store.size,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.bypassed = 0;
+  }
+
+  /**
+   * Hash of the prompt and its call options with the settings of the LLM
+   * answering it. Object keys are sorted first, so settings built in a
+   * different order hash the same.
+   */
+  key(prompt: string, options: LLMCallOptions = {}): string {
+    const { responseSchema, generation } = options;
+    return crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify(
+          sortedKeys({
+            settings: this.settings(),
+            generation,
+            prompt,
+            responseSchema,
+          })
+        )
+      )
+      .digest("hex")
+      .slice(0, 32);
+  }
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  const entry = value as Partial<CacheEntry> | null;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.response === "string" &&
+    Number.isFinite(entry.createdAt) &&
+    Number.isFinite(entry.lastUsedAt)
+  );
+}
+
+function sortedKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortedKeys);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortedKeys((value as Record<string, unknown>)[key])])
+  );
+}
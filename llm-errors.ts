@@ -0,0 +1,122 @@
+/**
+ * Typed LLM call failures
+ *
+ * Callers need to know whether trying again can help: a quota or timeout
+ * failure usually passes, an invalid request never does. Provider errors
+ * are sorted into these classes by classifyError; retryable ones are
+ * retried with backoff, the rest fail the call at once.
+ */
+
+export class LLMError extends Error {
+  readonly retryable: boolean = false;
+  readonly status?: number; // HTTP status, when the provider returned one
+  readonly cause?: unknown; // the provider's own error
+
+  constructor(
+    message: string,
+    options: { status?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Rate limit or quota exhausted (HTTP 429)
+ */
+export class QuotaError extends LLMError {
+  readonly retryable = true;
+  readonly retryAfterMs?: number; // how long the provider asked us to wait
+
+  constructor(
+    message: string,
+    options: { status?: number; cause?: unknown; retryAfterMs?: number } = {}
+  ) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * No answer within the configured timeout
+ */
+export class TimeoutError extends LLMError {
+  readonly retryable = true;
+
+  constructor(readonly timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * Server errors (5xx, 408) and dropped connections
+ */
+export class TransientError extends LLMError {
+  readonly retryable = true;
+}
+
+/**
+ * Rejected request: bad parameters, unknown model, missing permission or
+ * invalid API key (HTTP 4xx other than 408 and 429)
+ */
+export class InvalidRequestError extends LLMError {}
+
+/**
+ * The caller aborted the call's signal
+ */
+export class CancelledError extends LLMError {
+  constructor() {
+    super("LLM call was cancelled");
+  }
+}
+
+const NETWORK_FAILURE =
+  /fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/i;
+const QUOTA_EXCEEDED = /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i;
+
+/**
+ * Sort a provider error into the classes above. Errors carrying an HTTP
+ * status are sorted by it; otherwise by their message. Anything else is a
+ * plain, non-retryable LLMError.
+ */
+export function classifyError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+  const options = {
+    status: typeof status === "number" ? status : undefined,
+    cause: error,
+  };
+
+  if (options.status === 429 || QUOTA_EXCEEDED.test(message)) {
+    return new QuotaError(message, {
+      ...options,
+      retryAfterMs: retryAfter(error),
+    });
+  }
+  if (options.status !== undefined) {
+    if (options.status === 408 || options.status >= 500) {
+      return new TransientError(message, options);
+    }
+    if (options.status >= 400) return new InvalidRequestError(message, options);
+  }
+  if (NETWORK_FAILURE.test(message)) {
+    return new TransientError(message, options);
+  }
+  return new LLMError(message, options);
+}
+
+// Gemini sends the wait in a RetryInfo detail, e.g. {retryDelay: "30s"}
+function retryAfter(error: unknown): number | undefined {
+  const details = (error as { errorDetails?: unknown })?.errorDetails;
+  if (!Array.isArray(details)) return undefined;
+
+  for (const detail of details) {
+    const match = /^(\d+(?:\.\d+)?)s$/.exec(String(detail?.retryDelay ?? ""));
+    if (match) return Math.round(parseFloat(match[1]) * 1000);
+  }
+  return undefined;
+}
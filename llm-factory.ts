@@ -0,0 +1,54 @@
+/**
+ * Building the LLM a config selects
+ *
+ * Kept apart from llm.ts, which the providers import, so that choosing a
+ * provider never makes a provider module import itself back.
+ */
+
+import { validateConfig } from "./config";
+import { GeminiLLM } from "./gemini-llm";
+import { Config, LLM } from "./llm";
+import { CachedLLM, DiskCacheStore, MemoryCacheStore } from "./llm-cache";
+import { Logger, silentLogger } from "./logger";
+import { MockLLM } from "./mock-llm";
+import { OpenAICompatibleLLM } from "./openai-llm";
+
+/**
+ * The LLM a config selects, behind a response cache if one is configured.
+ * The config is validated first; problems are thrown as a ConfigError. The
+ * logger is passed to the provider and cache.
+ */
+export function createLLM(config: Config, logger: Logger = silentLogger): LLM {
+  const llm = createProvider(validateConfig(config), logger);
+  if (!config.cache) return llm;
+
+  const { store, path, mode, ...limits } = config.cache;
+  return new CachedLLM(
+    llm,
+    store === "disk"
+      ? new DiskCacheStore(path ?? "llm-cache.json", limits, logger)
+      : new MemoryCacheStore(limits),
+    mode,
+    logger
+  );
+}
+
+function createProvider(config: Config, logger: Logger): LLM {
+  switch (config.provider ?? "gemini") {
+    case "gemini":
+      return new GeminiLLM({
+        ...config,
+        apiKey: config.apiKey as string,
+        logger,
+      });
+    case "openai-compatible":
+      return new OpenAICompatibleLLM({
+        ...config,
+        baseUrl: config.baseUrl as string,
+        model: config.model as string,
+        logger,
+      });
+    case "mock":
+      return new MockLLM(config.responses ?? []);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Recorded LLM responses
+ *
+ * RecordingLLM wraps a real LLM and saves every prompt with its response to
+ * a fixture file; ReplayLLM serves those responses back, so tests run with
+ * no network and no API key. Fixtures are keyed by a hash of the prompt, so
+ * changing a prompt means recording again. Each prompt has one response: a
+ * prompt sent twice gets the response it got last.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { LLM, LLMCallOptions } from "./llm";
+
+export interface Fixture {
+  prompt: string;
+  response: string;
+}
+
+export type Fixtures = Record<string, Fixture>; // by prompt hash
+
+export function promptKey(prompt: string): string {
+  return crypto.createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+export function loadFixtures(path: string): Fixtures {
+  return fs.existsSync(path) ? JSON.parse(fs.readFileSync(path, "utf8")) : {};
+}
+
+/**
+ * Write fixtures sorted by key, so re-recording gives small diffs
+ */
+export function saveFixtures(path: string, fixtures: Fixtures): void {
+  const sorted = Object.fromEntries(
+    Object.entries(fixtures).sort(([a], [b]) => a.localeCompare(b))
+  );
+  fs.writeFileSync(path, JSON.stringify(sorted, null, 2) + "\n");
+}
+
+export class RecordingLLM implements LLM {
+  private fixtures: Fixtures;
+
+  /**
+   * @param llm the LLM that answers
+   * @param path fixture file; existing fixtures in it are kept
+   */
+  constructor(
+    private llm: LLM,
+    private path: string
+  ) {
+    this.fixtures = loadFixtures(path);
+  }
+
+  async executeLLM(prompt: string, options?: LLMCallOptions): Promise<string> {
+    const response = await this.llm.executeLLM(prompt, options);
+    this.fixtures[promptKey(prompt)] = { prompt, response };
+    // Saved after every call, so a run that crashes keeps what it recorded
+    saveFixtures(this.path, this.fixtures);
+    return response;
+  }
+}
+
+export class ReplayLLM implements LLM {
+  private fixtures: Fixtures;
+
+  constructor(path: string) {
+    this.fixtures = loadFixtures(path);
+  }
+
+  async executeLLM(prompt: string): Promise<string> {
+    const key = promptKey(prompt);
+    const fixture = this.fixtures[key];
+    if (!fixture) {
+      throw new Error(
+        `No recorded response for prompt ${key} (starting "${prompt
+          .trim()
+          .slice(0, 60)}..."); record fixtures again`
+      );
+    }
+    return fixture.response;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * JSON in LLM responses
+ *
+ * Providers with a structured output mode can be given a response schema
+ * and return bare JSON that matches it. Others, and models that ignore the
+ * schema, wrap JSON in prose or code fences, leave trailing commas, or
+ * return more than one object. parseJSONObject reads both: bare JSON
+ * first, then the contents of a code fence, then the first balanced object
+ * in the text that parses.
+ */
+
+/**
+ * The subset of JSON Schema that structured output modes (Gemini's
+ * responseSchema, OpenAI's json_schema response format) have in common
+ */
+export interface JSONSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: string[]; // strings only
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+}
+
+export class JSONParseError extends Error {
+  constructor(
+    message: string,
+    readonly response: string
+  ) {
+    super(message);
+    this.name = "JSONParseError";
+  }
+}
+
+/**
+ * The JSON object in an LLM response
+ */
+export function parseJSONObject(text: string): Record<string, any> {
+  const fenced = /```(?:json)?\s*\n?([\s\S]*?)```/i.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  const whole = tryParse(body);
+  if (whole !== undefined) return asObject(whole, text);
+
+  const objects = balancedObjects(body);
+  if (objects.length === 0) {
+    throw new JSONParseError(
+      body.includes("{")
+        ? `JSON object starting at character ${body.indexOf(
+            "{"
+          )} is never closed`
+        : "No JSON object found in response",
+      text
+    );
+  }
+
+  for (const object of objects) {
+    const parsed = tryParse(object) ?? tryParse(withoutTrailingCommas(object));
+    if (parsed !== undefined) return asObject(parsed, text);
+  }
+
+  // Report why the first candidate failed
+  try {
+    JSON.parse(withoutTrailingCommas(objects[0]));
+  } catch (error) {
+    throw new JSONParseError(
+      `Invalid JSON in response: ${(error as Error).message}`,
+      text
+    );
+  }
+  throw new JSONParseError("No JSON object found in response", text);
+}
+
+/**
+ * The first complete JSON object in text that may still be arriving, or
+ * undefined if none has closed yet
+ */
+export function completeJSONObject(text: string): string | undefined {
+  return balancedObjects(text).find(
+    (object) =>
+      tryParse(object) !== undefined ||
+      tryParse(withoutTrailingCommas(object)) !== undefined
+  );
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function asObject(value: unknown, text: string): Record<string, any> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new JSONParseError(
+      `Expected a JSON object, got ${Array.isArray(value) ? "an array" : typeof value}`,
+      text
+    );
+  }
+  return value as Record<string, any>;
+}
+
+/**
+ * Every top-level {...} span in text, in order, skipping braces inside
+ * strings
+ */
+function balancedObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === "{") {
+      if (depth++ === 0) start = i;
+    } else if (char === "}" && depth > 0) {
+      if (--depth === 0) objects.push(text.slice(start, i + 1));
+    }
+  }
+
+  return objects;
+}
+
+// Drop commas directly before a closing brace or bracket, outside strings
+function withoutTrailingCommas(json: string): string {
+  return json.replace(
+    /("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g,
+    (match, string, closer) => (string !== undefined ? string : closer)
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * Token usage and latency of LLM calls
+ *
+ * Providers report what each call cost through the onUsage hook in the
+ * call options; concepts say which of their actions made the call through
+ * the call context. MeteredLLM joins the two and records every call,
+ * including failed ones, in a MetricsCollector, which sums them per
+ * concept and per action for a summary at the end of a run.
+ */
+
+import { CallContext, LLM, LLMCallOptions, LLMUsage } from "./llm";
+import { streamOf } from "./llm-stream";
+
+/**
+ * One recorded call: the provider's usage report with the caller's context
+ */
+export interface CallRecord extends LLMUsage, CallContext {
+  success: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  cached: number; // answered from a response cache
+  promptTokens: number;
+  outputTokens: number;
+  unmetered: number; // calls whose provider reported no token counts
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+export interface MetricsSummary {
+  total: UsageTotals;
+  byConcept: Record<string, UsageTotals>; // e.g. "AIFilter"
+  byAction: Record<string, UsageTotals>; // e.g. "AIFilter.parseQuery"
+}
+
+export class MetricsCollector {
+  private records: CallRecord[] = [];
+
+  record(call: CallRecord): void {
+    this.records.push(call);
+  }
+
+  calls(): CallRecord[] {
+    return [...this.records];
+  }
+
+  reset(): void {
+    this.records = [];
+  }
+
+  summary(): MetricsSummary {
+    const summary: MetricsSummary = {
+      total: emptyTotals(),
+      byConcept: {},
+      byAction: {},
+    };
+
+    for (const call of this.records) {
+      const concept = call.concept ?? "unknown";
+      const action = `${concept}.${call.action ?? "unknown"}`;
+      for (const totals of [
+        summary.total,
+        (summary.byConcept[concept] ??= emptyTotals()),
+        (summary.byAction[action] ??= emptyTotals()),
+      ]) {
+        add(totals, call);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * The summary as a table, one row per action and one per concept
+   */
+  format(): string {
+    const { total, byConcept, byAction } = this.summary();
+    const row = (name: string, totals: UsageTotals) =>
+      [
+        name.padEnd(32),
+        String(totals.calls).padStart(5),
+        String(totals.failures).padStart(8),
+        String(totals.cached).padStart(6),
+        tokens(totals.promptTokens, totals).padStart(13),
+        tokens(totals.outputTokens, totals).padStart(13),
+        `${average(totals)}ms`.padStart(12),
+        `${totals.maxLatencyMs}ms`.padStart(10),
+      ].join(" ");
+
+    return [
+      "LLM USAGE",
+      "======================",
+      [
+        "".padEnd(32),
+        "calls".padStart(5),
+        "failures".padStart(8),
+        "cached".padStart(6),
+        "prompt tokens".padStart(13),
+        "output tokens".padStart(13),
+        "avg latency".padStart(12),
+        "max".padStart(10),
+      ].join(" "),
+      ...Object.entries(byAction).map(([name, totals]) => row(name, totals)),
+      ...Object.entries(byConcept).map(([name, totals]) =>
+        row(`${name} (all)`, totals)
+      ),
+      row("Total", total),
+    ].join("\n");
+  }
+}
+
+/**
+ * Records every call made through it in a collector. Calls whose provider
+ * reports no usage are still recorded, with the latency measured here.
+ */
+export class MeteredLLM implements LLM {
+  constructor(
+    private llm: LLM,
+    private metrics: MetricsCollector
+  ) {}
+
+  async executeLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<string> {
+    const started = Date.now();
+    let reported: LLMUsage | undefined;
+
+    try {
+      const response = await this.llm.executeLLM(prompt, {
+        ...options,
+        onUsage: (usage) => {
+          reported = usage;
+          options.onUsage?.(usage);
+        },
+      });
+      this.metrics.record({
+        ...(reported ?? this.measured(started)),
+        ...options.context,
+        success: true,
+      });
+      return response;
+    } catch (error) {
+      this.metrics.record({
+        ...this.measured(started),
+        ...options.context,
+        success: false,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Recorded when the stream ends, including when its reader stops early
+   */
+  async *streamLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<string> {
+    const started = Date.now();
+    let reported: LLMUsage | undefined;
+    let failed = false;
+
+    try {
+      yield* streamOf(this.llm, prompt, {
+        ...options,
+        onUsage: (usage) => {
+          reported = usage;
+          options.onUsage?.(usage);
+        },
+      });
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      this.metrics.record({
+        ...((!failed && reported) || this.measured(started)),
+        ...options.context,
+        success: !failed,
+      });
+    }
+  }
+
+  settings(): Record<string, unknown> {
+    return this.llm.settings?.() ?? {};
+  }
+
+  // Usage of a call whose provider reported none
+  private measured(started: number): LLMUsage {
+    return {
+      provider: String(this.settings().provider ?? "unknown"),
+      model: this.settings().model as string | undefined,
+      latencyMs: Date.now() - started,
+    };
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    failures: 0,
+    cached: 0,
+    promptTokens: 0,
+    outputTokens: 0,
+    unmetered: 0,
+    totalLatencyMs: 0,
+    maxLatencyMs: 0,
+  };
+}
+
+function add(totals: UsageTotals, call: CallRecord): void {
+  totals.calls++;
+  if (!call.success) totals.failures++;
+  if (call.cached) totals.cached++;
+  if (call.promptTokens === undefined && call.outputTokens === undefined) {
+    totals.unmetered++;
+  }
+  totals.promptTokens += call.promptTokens ?? 0;
+  totals.outputTokens += call.outputTokens ?? 0;
+  totals.totalLatencyMs += call.latencyMs;
+  totals.maxLatencyMs = Math.max(totals.maxLatencyMs, call.latencyMs);
+}
+
+function average(totals: UsageTotals): number {
+  return totals.calls > 0
+    ? Math.round(totals.totalLatencyMs / totals.calls)
+    : 0;
+}
+
+// Token count, or "-" when no call in the row reported any
+function tokens(count: number, totals: UsageTotals): string {
+  return totals.unmetered === totals.calls ? "-" : String(count);
+}
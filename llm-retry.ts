@@ -0,0 +1,127 @@
+/**
+ * Timeouts and retries for LLM calls
+ *
+ * Each attempt gets its own timeout. Attempts that fail with a retryable
+ * error (see llm-errors.ts) are tried again after an exponential backoff
+ * with full jitter, so clients that failed together don't retry together.
+ */
+
+import {
+  CancelledError,
+  classifyError,
+  LLMError,
+  QuotaError,
+  TimeoutError,
+} from "./llm-errors";
+
+export interface RetryPolicy {
+  maxRetries: number; // attempts after the first
+  baseDelayMs: number; // backoff ceiling before the first retry
+  maxDelayMs: number; // backoff ceiling never grows past this
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Delay before retry number `retry` (0 for the first): a random time up to
+ * baseDelayMs * 2^retry, capped at maxDelayMs. A wait the provider asked
+ * for in a quota error is honored instead, up to the same cap.
+ */
+export function backoffDelay(
+  retry: number,
+  policy: RetryPolicy,
+  error?: LLMError,
+  random: () => number = Math.random
+): number {
+  if (error instanceof QuotaError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Run call, aborting its signal and failing with a TimeoutError if it has
+ * not settled within timeoutMs, or with a CancelledError if the caller's
+ * signal is aborted first
+ */
+export async function withTimeout<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) throw new CancelledError();
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  let cancel: (() => void) | undefined;
+  const stopped = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+    cancel = () => {
+      controller.abort();
+      reject(new CancelledError());
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), stopped]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel as () => void);
+  }
+}
+
+/**
+ * Run attempt until it succeeds, fails with an error that is not
+ * retryable, or runs out of retries. A quota error asking for a longer
+ * wait than maxDelayMs fails at once rather than blocking the caller.
+ * Errors are thrown classified.
+ */
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: LLMError, retry: number, delayMs: number) => void
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (caught) {
+      const error = classifyError(caught);
+      if (!error.retryable || retry >= policy.maxRetries) throw error;
+      if (
+        error instanceof QuotaError &&
+        error.retryAfterMs !== undefined &&
+        error.retryAfterMs > policy.maxDelayMs
+      ) {
+        throw error;
+      }
+
+      const delay = backoffDelay(retry, policy, error);
+      onRetry?.(error, retry, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export function resolveRetryPolicy(
+  overrides: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+
+  if (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 0) {
+    throw new Error(
+      `maxRetries must be a non-negative integer, got ${policy.maxRetries}`
+    );
+  }
+  if (!(policy.baseDelayMs >= 0) || !(policy.maxDelayMs >= 0)) {
+    throw new Error("Retry delays must be non-negative");
+  }
+  return policy;
+}
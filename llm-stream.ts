@@ -0,0 +1,80 @@
+/**
+ * Streaming LLM responses
+ *
+ * A long prompt, such as DayPlanner's for a full day of activities, can
+ * take many seconds to answer. Providers that can stream implement
+ * streamLLM, which yields the answer in chunks as the model writes it and
+ * stops when the call's signal is aborted. collectStream reads a stream for
+ * a concept: it reports progress after every chunk and can stop as soon as
+ * a complete JSON object has arrived, without waiting for whatever the
+ * model writes after it. LLMs that can't stream answer in a single chunk.
+ */
+
+import { LLM, LLMCallOptions } from "./llm";
+import { CancelledError } from "./llm-errors";
+import { completeJSONObject } from "./llm-json";
+
+export interface StreamProgress {
+  chunk: string; // the chunk that just arrived
+  text: string; // everything received so far
+  chunks: number;
+}
+
+/**
+ * What a concept action that calls an LLM takes to stream
+ */
+export interface StreamOptions {
+  onProgress?: (progress: StreamProgress) => void; // after every chunk
+  signal?: AbortSignal; // cancels the call
+}
+
+export interface CollectOptions extends LLMCallOptions {
+  onProgress?: (progress: StreamProgress) => void;
+  stopWhenComplete?: boolean; // stop once a complete JSON object has arrived
+}
+
+/**
+ * The LLM's stream, or its whole answer as one chunk if it can't stream
+ */
+export async function* streamOf(
+  llm: LLM,
+  prompt: string,
+  options: LLMCallOptions = {}
+): AsyncGenerator<string> {
+  throwIfCancelled(options.signal);
+  if (llm.streamLLM) {
+    yield* llm.streamLLM(prompt, options);
+  } else {
+    const response = await llm.executeLLM(prompt, options);
+    throwIfCancelled(options.signal);
+    yield response;
+  }
+}
+
+/**
+ * Read a stream to the end, or to the first complete JSON object with
+ * stopWhenComplete, and return the text received. Stopping early ends the
+ * provider's request.
+ */
+export async function collectStream(
+  llm: LLM,
+  prompt: string,
+  options: CollectOptions = {}
+): Promise<string> {
+  const { onProgress, stopWhenComplete, ...callOptions } = options;
+  let text = "";
+  let chunks = 0;
+
+  for await (const chunk of streamOf(llm, prompt, callOptions)) {
+    throwIfCancelled(options.signal);
+    text += chunk;
+    chunks++;
+    onProgress?.({ chunk, text, chunks });
+    if (stopWhenComplete && completeJSONObject(text) !== undefined) break;
+  }
+  return text;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new CancelledError();
+}
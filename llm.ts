@@ -0,0 +1,167 @@
+/**
+ * LLM providers
+ *
+ * The concepts only need something that answers a prompt with text, so they
+ * take the LLM interface below rather than a particular vendor's client.
+ * Which provider answers is chosen in config.json: Gemini, any server with
+ * an OpenAI-compatible chat completions endpoint (vLLM, llama.cpp, Ollama,
+ * LM Studio, ...) for locally hosted models, or a scripted mock.
+ *
+ * This module holds only the types every provider and concept shares, so
+ * the providers can import it; createLLM, which imports the providers, is
+ * in llm-factory.ts.
+ */
+
+import type { CacheLimits, CacheMode } from "./llm-cache";
+import { InvalidRequestError } from "./llm-errors";
+import type { JSONSchema } from "./llm-json";
+import type { RetryPolicy } from "./llm-retry";
+import type { RateLimit } from "./rate-limiter";
+
+/**
+ * Anything that answers a prompt with text
+ */
+export interface LLM {
+  executeLLM(prompt: string, options?: LLMCallOptions): Promise<string>;
+  // The answer in chunks as it is written, for providers that can stream
+  streamLLM?(prompt: string, options?: LLMCallOptions): AsyncIterable<string>;
+  // Model and generation settings that shape the answers, for cache keys
+  settings?(): Record<string, unknown>;
+}
+
+export interface LLMCallOptions {
+  // Shape of the JSON answer. Providers with a structured output mode
+  // enforce it; others ignore it, and the answer is parsed tolerantly.
+  responseSchema?: JSONSchema;
+  generation?: GenerationSettings; // overrides the configured settings
+  context?: CallContext; // who is calling, for usage metrics
+  onUsage?: (usage: LLMUsage) => void; // called by the provider after a call
+  signal?: AbortSignal; // cancels the call or stream with a CancelledError
+}
+
+/**
+ * Which concept action made a call, e.g. AIFilter's parseQuery with the
+ * detailed prompt variant
+ */
+export interface CallContext {
+  concept?: string;
+  action?: string;
+  variant?: string;
+}
+
+/**
+ * What one call cost, as reported by the provider. Token counts are
+ * missing when the provider doesn't return them.
+ */
+export interface LLMUsage {
+  provider: string;
+  model?: string;
+  promptTokens?: number;
+  outputTokens?: number;
+  latencyMs: number; // including retries
+  attempts?: number; // API requests made, when retried
+  cached?: boolean; // answered from a response cache
+}
+
+/**
+ * How answers are generated. Set in the config; any of it can be
+ * overridden for a single call.
+ */
+export interface GenerationSettings {
+  model?: string; // defaults: gemini-2.5-flash-lite; required for openai-compatible
+  temperature?: number; // 0 to 2; the provider's default if omitted
+  topP?: number; // above 0, at most 1
+  maxOutputTokens?: number; // default 1000
+  safetySettings?: SafetySetting[]; // gemini only
+}
+
+/**
+ * A Gemini harm category and the threshold to block it at, e.g.
+ * {category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH"}
+ */
+export interface SafetySetting {
+  category: string;
+  threshold: string;
+}
+
+export type ProviderName = "gemini" | "openai-compatible" | "mock";
+
+/**
+ * LLM configuration, from code or loaded by loadConfig (see config.ts).
+ * Only the fields of the chosen provider are read; a config with just an
+ * apiKey selects Gemini.
+ */
+export interface Config extends GenerationSettings {
+  provider?: ProviderName; // "gemini" if omitted
+  apiKey?: string; // gemini (required), openai-compatible (optional)
+  baseUrl?: string; // openai-compatible, e.g. "http://localhost:8000/v1"
+  timeoutMs?: number; // gemini, openai-compatible: per attempt, default 30000
+  retry?: Partial<RetryPolicy>; // gemini, openai-compatible: retries of quota, timeout and server errors
+  rateLimit?: RateLimit; // gemini, openai-compatible: client-side request rate and concurrency
+  structuredOutput?: boolean; // gemini, openai-compatible: send response schemas, default true
+  responses?: string[]; // mock: answers in order
+  cache?: CacheConfig; // any provider: reuse answers to repeated prompts
+}
+
+export interface CacheConfig extends CacheLimits {
+  store?: "memory" | "disk"; // "memory" if omitted
+  path?: string; // disk store file, default "llm-cache.json"
+  mode?: CacheMode;
+}
+
+// The numeric generation settings, what each must be and the test for it
+const GENERATION_RANGES: [
+  keyof GenerationSettings,
+  string,
+  (value: number) => boolean,
+][] = [
+  ["temperature", "between 0 and 2", (v) => v >= 0 && v <= 2],
+  ["topP", "above 0 and at most 1", (v) => v > 0 && v <= 1],
+  [
+    "maxOutputTokens",
+    "a positive integer",
+    (v) => Number.isInteger(v) && v > 0,
+  ],
+];
+
+/**
+ * Problems with the numeric generation settings, one message per setting
+ * out of range. validateConfig checks the config with these, and
+ * mergeGeneration every call's merged settings.
+ */
+export function generationProblems(settings: GenerationSettings): string[] {
+  const problems: string[] = [];
+  for (const [name, expected, valid] of GENERATION_RANGES) {
+    const value = settings[name];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !valid(value)) {
+      problems.push(
+        `${name} must be ${expected}, got ${JSON.stringify(value)}`
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Settings with overrides applied; overrides left undefined change nothing.
+ * Merged settings out of range are thrown as an InvalidRequestError before
+ * anything is sent.
+ */
+export function mergeGeneration(
+  settings: GenerationSettings,
+  overrides: GenerationSettings = {}
+): GenerationSettings {
+  const merged = { ...settings };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+
+  const problems = generationProblems(merged);
+  if (problems.length > 0) {
+    throw new InvalidRequestError(
+      `Invalid generation settings: ${problems.join("; ")}`
+    );
+  }
+  return merged;
+}
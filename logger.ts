@@ -0,0 +1,138 @@
+/**
+ * Logging for the concepts and LLM providers
+ *
+ * AIFilter, DayPlanner and the providers never write to the console. They
+ * report progress, raw LLM responses and errors to a Logger as records
+ * with a level, a message and structured fields (filterId, variant,
+ * response, ...). The default logger drops everything, so the library is
+ * quiet inside a server or a CLI; an app that wants the records passes a
+ * logger with a sink, such as JSON lines for a log pipeline or plain text
+ * for a terminal.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  time: string; // ISO 8601
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export class Logger {
+  /**
+   * @param sink receives every record at or above level; none if omitted
+   * @param level the least severe level passed to the sink
+   * @param fields added to every record
+   */
+  constructor(
+    private sink?: LogSink,
+    private level: LogLevel = "info",
+    private fields: LogFields = {}
+  ) {
+    if (!LEVELS.includes(level)) {
+      throw new Error(
+        `Unknown log level "${level}"; expected one of ${LEVELS.join(", ")}`
+      );
+    }
+  }
+
+  debug(message: string, fields: LogFields = {}): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields: LogFields = {}): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields: LogFields = {}): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields: LogFields = {}): void {
+    this.log("error", message, fields);
+  }
+
+  /**
+   * A logger writing to the same sink with more fields on every record,
+   * e.g. the filter a parse is for
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.sink, this.level, { ...this.fields, ...fields });
+  }
+
+  enabled(level: LogLevel): boolean {
+    return (
+      this.sink !== undefined &&
+      LEVELS.indexOf(level) >= LEVELS.indexOf(this.level)
+    );
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields): void {
+    if (!this.enabled(level)) return;
+    (this.sink as LogSink)({
+      time: new Date().toISOString(),
+      level,
+      message,
+      fields: { ...this.fields, ...fields },
+    });
+  }
+}
+
+/**
+ * Drops every record; the default for everything that takes a logger
+ */
+export const silentLogger = new Logger();
+
+/**
+ * One JSON object per record and line: {"time", "level", "message",
+ * ...fields}. Errors in fields are written as their name and message.
+ */
+export function jsonLinesSink(
+  write: (line: string) => void = (line) => process.stdout.write(line)
+): LogSink {
+  return ({ time, level, message, fields }) =>
+    write(
+      JSON.stringify({ time, level, message, ...fields }, (_key, value) =>
+        value instanceof Error
+          ? { name: value.name, message: value.message }
+          : value
+      ) + "\n"
+    );
+}
+
+/**
+ * Readable lines for a terminal: the level and message, then the fields.
+ * Multi-line fields such as raw responses go on the lines below.
+ */
+export function textSink(
+  write: (line: string) => void = (line) => process.stderr.write(line)
+): LogSink {
+  return ({ level, message, fields }) => {
+    const inline: string[] = [];
+    const blocks: string[] = [];
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+      const text =
+        value instanceof Error
+          ? value.message
+          : typeof value === "string"
+            ? value
+            : JSON.stringify(value);
+      if (text.includes("\n")) blocks.push(`  ${key}:\n${text}`);
+      else inline.push(`${key}=${text}`);
+    }
+    write(
+      [
+        [level.toUpperCase().padEnd(5), message, ...inline].join(" "),
+        ...blocks,
+      ].join("\n") + "\n"
+    );
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Scripted LLM for tests and demos
+ *
+ * Answers prompts from a script instead of a model: a list of responses
+ * given out in order, or a function of the prompt. Every prompt it receives
+ * is kept with its call options, so a test can check what was sent.
+ * Streams cut the same responses into fixed-size chunks.
+ */
+
+import { LLM, LLMCallOptions } from "./llm";
+import { CancelledError } from "./llm-errors";
+
+export type Script = string[] | ((prompt: string) => string);
+
+export interface MockStreamOptions {
+  chunkSize?: number; // characters per chunk, default 16
+  chunkDelayMs?: number; // wait before each chunk, default 0
+}
+
+export class MockLLM implements LLM {
+  readonly prompts: string[] = [];
+  readonly options: LLMCallOptions[] = [];
+  chunksSent = 0; // by every stream, to check where one stopped
+  private script: Script;
+  private chunkSize: number;
+  private chunkDelayMs: number;
+
+  constructor(script: Script, stream: MockStreamOptions = {}) {
+    this.script = Array.isArray(script) ? [...script] : script;
+    this.chunkSize = stream.chunkSize ?? 16;
+    this.chunkDelayMs = stream.chunkDelayMs ?? 0;
+    if (!(Number.isInteger(this.chunkSize) && this.chunkSize > 0)) {
+      throw new Error(
+        `chunkSize must be a positive integer, got ${this.chunkSize}`
+      );
+    }
+  }
+
+  async executeLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<string> {
+    this.prompts.push(prompt);
+    this.options.push(options);
+
+    if (!Array.isArray(this.script)) return this.script(prompt);
+
+    const response = this.script.shift();
+    if (response === undefined) {
+      throw new Error(
+        `Mock LLM has no response left for prompt ${this.prompts.length}`
+      );
+    }
+    return response;
+  }
+
+  async *streamLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<string> {
+    const response = await this.executeLLM(prompt, options);
+    for (let i = 0; i < response.length; i += this.chunkSize) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.chunkDelayMs));
+      }
+      if (options.signal?.aborted) throw new CancelledError();
+      this.chunksSent++;
+      yield response.slice(i, i + this.chunkSize);
+    }
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * LLM served over an OpenAI-compatible chat completions API
+ *
+ * Most local model servers (vLLM, llama.cpp's server, Ollama, LM Studio)
+ * expose POST <baseUrl>/chat/completions in the OpenAI format, so one
+ * client covers them all, as well as hosted APIs that follow it.
+ */
+
+import {
+  GenerationSettings,
+  LLM,
+  LLMCallOptions,
+  mergeGeneration,
+} from "./llm";
+import {
+  CancelledError,
+  classifyError,
+  LLMError,
+  QuotaError,
+} from "./llm-errors";
+import { JSONSchema } from "./llm-json";
+import {
+  resolveRetryPolicy,
+  RetryPolicy,
+  withRetry,
+  withTimeout,
+} from "./llm-retry";
+import { Logger, silentLogger } from "./logger";
+import { RateLimit, RateLimiter } from "./rate-limiter";
+
+export interface OpenAICompatibleConfig extends GenerationSettings {
+  baseUrl: string; // up to and including the version, e.g. "http://localhost:8000/v1"
+  model: string;
+  apiKey?: string; // sent as a bearer token; local servers usually need none
+  timeoutMs?: number; // per attempt, default 30000
+  retry?: Partial<RetryPolicy>;
+  rateLimit?: RateLimit;
+  structuredOutput?: boolean; // send response schemas as response_format, default true
+  logger?: Logger; // retries and errors; silent if omitted
+}
+
+/**
+ * The parts of the chat completions API this client sends and reads
+ */
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: { role: "system" | "user" | "assistant"; content: string }[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  response_format?: {
+    type: "json_schema";
+    json_schema: { name: string; schema: JSONSchema };
+  };
+  stream?: boolean;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+export interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { role?: string; content?: string | null } }[];
+  usage?: ChatCompletionUsage;
+}
+
+// One server-sent event of a streamed completion
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+export class OpenAICompatibleLLM implements LLM {
+  private baseUrl: string;
+  private apiKey?: string;
+  private generation: GenerationSettings;
+  private timeoutMs: number;
+  private retryPolicy: RetryPolicy;
+  private limiter: RateLimiter;
+  private structuredOutput: boolean;
+  private logger: Logger;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    // Safety settings are Gemini's; there is nothing to send them as here
+    this.generation = {
+      model: config.model,
+      temperature: config.temperature,
+      topP: config.topP,
+      maxOutputTokens: config.maxOutputTokens ?? 1000,
+    };
+    this.timeoutMs = config.timeoutMs ?? 30000;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.limiter = new RateLimiter(config.rateLimit);
+    this.structuredOutput = config.structuredOutput ?? true;
+    this.logger = config.logger ?? silentLogger;
+  }
+
+  settings(): Record<string, unknown> {
+    return {
+      provider: "openai-compatible",
+      baseUrl: this.baseUrl,
+      ...this.generation,
+    };
+  }
+
+  /**
+   * Send prompt as a single user message. Every attempt waits its turn in
+   * the rate limiter and has its own timeout; rate limit, timeout and
+   * server errors are retried with backoff. Failures are thrown as LLMError
+   * subclasses; aborting the signal in the call options cancels the call,
+   * waiting or not, with a CancelledError. A response schema is sent as a json_schema response format;
+   * servers without structured output support may reject it, so it can be
+   * switched off in the config. Generation settings given for the call
+   * override the configured ones. Token counts and latency go to the
+   * onUsage hook.
+   */
+  async executeLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<string> {
+    const generation = mergeGeneration(this.generation, options.generation);
+    const started = Date.now();
+    let attempts = 0;
+    try {
+      const body = await withRetry(
+        () =>
+          this.limiter.schedule(
+            () =>
+              withTimeout(
+                async (signal) => {
+                  attempts++;
+                  const response = await this.request(prompt, options, signal);
+                  return (await response.json()) as ChatCompletionResponse;
+                },
+                this.timeoutMs,
+                options.signal
+              ),
+            options.signal
+          ),
+        this.retryPolicy,
+        (error, retry, delayMs) =>
+          this.logger.warn(
+            `${error.name}: ${error.message}; retry ${retry + 1}/${this.retryPolicy.maxRetries} in ${delayMs}ms`,
+            {
+              provider: "openai-compatible",
+              model: generation.model,
+              retry: retry + 1,
+              delayMs,
+            }
+          )
+      );
+      const text = completionText(body);
+
+      options.onUsage?.({
+        provider: "openai-compatible",
+        model: body.model ?? generation.model,
+        promptTokens: body.usage?.prompt_tokens,
+        outputTokens: body.usage?.completion_tokens,
+        latencyMs: Date.now() - started,
+        attempts,
+      });
+      return text;
+    } catch (error) {
+      this.logger.error(`Error calling ${this.baseUrl}`, {
+        provider: "openai-compatible",
+        model: generation.model,
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the response to prompt as server-sent events. The stream waits
+   * its turn in the rate limiter and holds its slot until it ends; like
+   * Gemini's, it is neither retried nor timed out. Aborting the signal in
+   * the call options, even while the stream waits in the limiter, or
+   * stopping reading early, ends the request. Token
+   * counts are reported if the server includes them.
+   */
+  async *streamLLM(
+    prompt: string,
+    options: LLMCallOptions = {}
+  ): AsyncGenerator<string> {
+    const generation = mergeGeneration(this.generation, options.generation);
+    const started = Date.now();
+    const release = await this.limiter.acquire(options.signal);
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener("abort", cancel);
+    let usage: ChatCompletionUsage | null | undefined;
+
+    try {
+      if (options.signal?.aborted) throw new CancelledError();
+      const response = await this.request(
+        prompt,
+        options,
+        controller.signal,
+        true
+      );
+      if (!response.headers.get("content-type")?.includes("event-stream")) {
+        // The server can't stream and answered with the whole completion
+        const body = (await response.json()) as ChatCompletionResponse;
+        usage = body.usage;
+        yield completionText(body);
+      } else {
+        for await (const event of serverSentEvents(response)) {
+          usage = event.usage ?? usage;
+          const text = event.choices?.[0]?.delta?.content;
+          if (typeof text === "string" && text !== "") yield text;
+        }
+      }
+
+      options.onUsage?.({
+        provider: "openai-compatible",
+        model: generation.model,
+        promptTokens: usage?.prompt_tokens,
+        outputTokens: usage?.completion_tokens,
+        latencyMs: Date.now() - started,
+      });
+    } catch (error) {
+      const failure = options.signal?.aborted
+        ? new CancelledError()
+        : classifyError(error);
+      this.logger.error(`Error streaming from ${this.baseUrl}`, {
+        provider: "openai-compatible",
+        model: generation.model,
+        error: failure.message,
+      });
+      throw failure;
+    } finally {
+      options.signal?.removeEventListener("abort", cancel);
+      controller.abort();
+      release();
+    }
+  }
+
+  /**
+   * POST the chat completion request. A response with an error status is
+   * thrown as the LLMError for that status.
+   */
+  private async request(
+    prompt: string,
+    options: LLMCallOptions,
+    signal: AbortSignal,
+    stream = false
+  ): Promise<Response> {
+    const responseSchema = this.structuredOutput
+      ? options.responseSchema
+      : undefined;
+    const generation = mergeGeneration(this.generation, options.generation);
+    const body: ChatCompletionRequest = {
+      model: generation.model,
+      messages: [{ role: "user", content: prompt }],
+      max_tokens: generation.maxOutputTokens,
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      ...(responseSchema
+        ? {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "response", schema: responseSchema },
+            },
+          }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) throw await httpError(response);
+    return response;
+  }
+}
+
+/**
+ * The LLMError for a failed response: 429 is a QuotaError that honors the
+ * Retry-After header, other statuses are sorted by classifyError
+ */
+async function httpError(response: Response): Promise<LLMError> {
+  const message = `${response.status} ${response.statusText}: ${await response.text()}`;
+  if (response.status === 429) {
+    const seconds = Number(response.headers.get("retry-after") ?? NaN);
+    return new QuotaError(message, {
+      status: response.status,
+      retryAfterMs: Number.isFinite(seconds) ? seconds * 1000 : undefined,
+    });
+  }
+  return classifyError(
+    Object.assign(new Error(message), { status: response.status })
+  );
+}
+
+function completionText(body: ChatCompletionResponse): string {
+  const text = body?.choices?.[0]?.message?.content;
+  if (typeof text !== "string") {
+    throw new LLMError(
+      `Response has no choices[0].message.content: ${JSON.stringify(body)}`
+    );
+  }
+  return text;
+}
+
+/**
+ * The JSON data of each "data:" line in a server-sent event stream, up to
+ * "[DONE]"
+ */
+async function* serverSentEvents(
+  response: Response
+): AsyncGenerator<ChatCompletionChunk> {
+  if (!response.body) throw new LLMError("Response has no body to stream");
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffered += decoder.decode(bytes, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() as string;
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice("data:".length).trim();
+      if (data === "[DONE]") return;
+      yield JSON.parse(data);
+    }
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Prompt evaluation
+ *
+ * Scores each prompt variant against a golden dataset of queries labeled
+ * with the criteria they should produce, instead of judging prompts by
+ * reading console output. Responses are replayed from a recording, so an
+ * evaluation runs offline and gives the same numbers every time; with an
+ * LLM, queries missing from the recording are sent to it and its answers
+ * recorded for the next run.
+ */
+
+import * as fs from "fs";
+import { AIFilter, ParseResult, PromptVariant } from "./aifilter";
+import { ClimbingRoute } from "./climbing-routes";
+import { criteriaValues, valueField } from "./criteria-values";
+import { LLM } from "./llm";
+import { ItemSchema } from "./item-schema";
+import { Logger, silentLogger } from "./logger";
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  expected: Record<string, unknown>; // criteria group, as the LLM returns it
+}
+
+// Raw LLM responses by prompt variant, then by query id
+export type RecordedResponses = Partial<
+  Record<PromptVariant, Record<string, string>>
+>;
+
+export interface EvalOptions {
+  variants?: PromptVariant[]; // all three if omitted
+  llm?: LLM; // called for queries without a recorded response
+}
+
+/**
+ * Value-level scores for one field ("grade", "exclude.holdTypes",
+ * "ranges.grade", "anyOf"). precision and recall are undefined when nothing
+ * was predicted or expected; exactMatch is the share of queries mentioning
+ * the field on either side that got exactly the expected values.
+ */
+export interface FieldScore {
+  precision?: number;
+  recall?: number;
+  exactMatch: number;
+  queries: number;
+}
+
+/**
+ * How one variant did on one query
+ */
+export interface QueryOutcome {
+  id: string;
+  outcome: "valid" | "invalid" | "ambiguous" | "unrecorded";
+  expected: string[];
+  predicted: string[];
+  error?: string;
+}
+
+export interface VariantReport {
+  variant: PromptVariant;
+  precision?: number;
+  recall?: number;
+  exactMatch: number; // share of queries with exactly the expected criteria
+  validationFailureRate: number; // share of responses that failed validation
+  ambiguousRate: number;
+  fields: Record<string, FieldScore>;
+  queries: QueryOutcome[];
+}
+
+export interface EvalReport {
+  dataset: number; // number of golden queries
+  variants: VariantReport[];
+}
+
+interface Counts {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  exact: number;
+  queries: number;
+}
+
+/**
+ * Answers every prompt with a response fixed in advance
+ */
+class RecordedLLM implements LLM {
+  constructor(private response: string) {}
+
+  async executeLLM(): Promise<string> {
+    return this.response;
+  }
+}
+
+export class PromptEvaluator<Item = ClimbingRoute> {
+  private filter: AIFilter<Item>;
+
+  constructor(
+    schema?: ItemSchema<Item>,
+    private logger: Logger = silentLogger
+  ) {
+    this.filter = new AIFilter(schema, logger);
+  }
+
+  /**
+   * Run every variant on every golden query. Only the first response counts:
+   * repairs are disabled, so a response that fails validation is scored as
+   * a failure. Live answers are added to responses.
+   */
+  async evaluate(
+    dataset: GoldenQuery[],
+    responses: RecordedResponses,
+    options: EvalOptions = {}
+  ): Promise<EvalReport> {
+    const variants = options.variants ?? ["basic", "detailed", "constrained"];
+    const reports: VariantReport[] = [];
+
+    for (const variant of variants) {
+      this.logger.info(`Evaluating ${variant} prompt variant...`, { variant });
+      this.filter.setPromptVariant(variant);
+      const recorded = (responses[variant] ??= {});
+      const outcomes: QueryOutcome[] = [];
+
+      for (const golden of dataset) {
+        const expected = criteriaValues(golden.expected);
+        const response = recorded[golden.id];
+
+        if (response === undefined && !options.llm) {
+          this.logger.warn(
+            `No recorded ${variant} response for "${golden.id}"`,
+            { variant, id: golden.id }
+          );
+          outcomes.push({
+            id: golden.id,
+            outcome: "unrecorded",
+            expected,
+            predicted: [],
+          });
+          continue;
+        }
+
+        const result = await this.filter.parseQuery(
+          this.filter.createFilter(),
+          golden.query,
+          response === undefined
+            ? (options.llm as LLM)
+            : new RecordedLLM(response),
+          { repair: { maxRepairs: 0 } }
+        );
+        if (response === undefined && result.attempts.length > 0) {
+          recorded[golden.id] = result.attempts[0].response;
+        }
+        outcomes.push(this.outcome(golden, expected, result));
+      }
+
+      reports.push(this.score(variant, outcomes));
+    }
+
+    return { dataset: dataset.length, variants: reports };
+  }
+
+  private outcome(
+    golden: GoldenQuery,
+    expected: string[],
+    result: ParseResult
+  ): QueryOutcome {
+    if (result.ambiguous) {
+      return { id: golden.id, outcome: "ambiguous", expected, predicted: [] };
+    }
+    if (!result.success) {
+      return {
+        id: golden.id,
+        outcome: "invalid",
+        expected,
+        predicted: [],
+        error: result.error,
+      };
+    }
+    return {
+      id: golden.id,
+      outcome: "valid",
+      expected,
+      predicted: criteriaValues(result.criteria ?? {}),
+    };
+  }
+
+  private score(
+    variant: PromptVariant,
+    outcomes: QueryOutcome[]
+  ): VariantReport {
+    const total = this.emptyCounts();
+    const fields: Record<string, Counts> = {};
+    const scored = outcomes.filter((o) => o.outcome !== "unrecorded");
+
+    for (const outcome of scored) {
+      const byField = new Map<string, [string[], string[]]>();
+      for (const value of outcome.expected) {
+        const [expected] = this.entry(byField, valueField(value));
+        expected.push(value);
+      }
+      for (const value of outcome.predicted) {
+        const [, predicted] = this.entry(byField, valueField(value));
+        predicted.push(value);
+      }
+
+      for (const [field, [expected, predicted]] of byField) {
+        this.count((fields[field] ??= this.emptyCounts()), expected, predicted);
+      }
+      this.count(total, outcome.expected, outcome.predicted);
+    }
+
+    const rate = (count: number) =>
+      scored.length > 0 ? count / scored.length : 0;
+
+    return {
+      variant,
+      ...this.ratios(total),
+      validationFailureRate: rate(
+        scored.filter((o) => o.outcome === "invalid").length
+      ),
+      ambiguousRate: rate(
+        scored.filter((o) => o.outcome === "ambiguous").length
+      ),
+      fields: Object.fromEntries(
+        Object.entries(fields)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([field, counts]) => [field, this.ratios(counts)])
+      ),
+      queries: outcomes,
+    };
+  }
+
+  private entry(
+    byField: Map<string, [string[], string[]]>,
+    field: string
+  ): [string[], string[]] {
+    const entry = byField.get(field) ?? [[], []];
+    byField.set(field, entry);
+    return entry;
+  }
+
+  private count(counts: Counts, expected: string[], predicted: string[]): void {
+    const hits = predicted.filter((value) => expected.includes(value)).length;
+    counts.truePositives += hits;
+    counts.falsePositives += predicted.length - hits;
+    counts.falseNegatives += expected.length - hits;
+    counts.queries++;
+    if (hits === expected.length && hits === predicted.length) counts.exact++;
+  }
+
+  private ratios(counts: Counts): FieldScore {
+    const { truePositives, falsePositives, falseNegatives } = counts;
+    const ratio = (part: number, whole: number) =>
+      whole > 0 ? part / whole : undefined;
+    return {
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+      exactMatch: ratio(counts.exact, counts.queries) ?? 0,
+      queries: counts.queries,
+    };
+  }
+
+  private emptyCounts(): Counts {
+    return {
+      truePositives: 0,
+      falsePositives: 0,
+      falseNegatives: 0,
+      exact: 0,
+      queries: 0,
+    };
+  }
+}
+
+export function loadDataset(path: string): GoldenQuery[] {
+  const dataset = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (!Array.isArray(dataset)) {
+    throw new Error(`Dataset ${path} must be an array of golden queries`);
+  }
+
+  const ids = new Set<string>();
+  for (const entry of dataset) {
+    if (
+      typeof entry?.id !== "string" ||
+      typeof entry.query !== "string" ||
+      typeof entry.expected !== "object"
+    ) {
+      throw new Error(
+        `Every golden query needs an id, a query and expected criteria: ${JSON.stringify(
+          entry
+        )}`
+      );
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`Duplicate golden query id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+  }
+  return dataset;
+}
+
+export function loadResponses(path: string): RecordedResponses {
+  return fs.existsSync(path) ? JSON.parse(fs.readFileSync(path, "utf8")) : {};
+}
+
+export function saveResponses(path: string, responses: RecordedResponses) {
+  fs.writeFileSync(path, JSON.stringify(responses, null, 2) + "\n");
+}
+
+/**
+ * Write the report as <basePath>.json and <basePath>.md and return the
+ * paths written
+ */
+export function writeReport(
+  report: EvalReport,
+  basePath: string
+): { json: string; markdown: string } {
+  const json = `${basePath}.json`;
+  const markdown = `${basePath}.md`;
+  fs.writeFileSync(json, JSON.stringify(report, null, 2) + "\n");
+  fs.writeFileSync(markdown, formatReport(report));
+  return { json, markdown };
+}
+
+/**
+ * The report as Markdown: an overview table comparing the variants, then
+ * per-field scores and the queries each variant got wrong
+ */
+export function formatReport(report: EvalReport): string {
+  const percent = (value: number | undefined) =>
+    value === undefined ? "–" : `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    "# Prompt Evaluation",
+    "",
+    `${report.dataset} golden queries`,
+    "",
+    "| Variant | Precision | Recall | Exact match | Validation failures | Ambiguous |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...report.variants.map(
+      (v) =>
+        `| ${v.variant} | ${percent(v.precision)} | ${percent(
+          v.recall
+        )} | ${percent(v.exactMatch)} | ${percent(
+          v.validationFailureRate
+        )} | ${percent(v.ambiguousRate)} |`
+    ),
+  ];
+
+  for (const variant of report.variants) {
+    lines.push(
+      "",
+      `## ${variant.variant}`,
+      "",
+      "| Field | Precision | Recall | Exact match | Queries |",
+      "| --- | --- | --- | --- | --- |",
+      ...Object.entries(variant.fields).map(
+        ([field, score]) =>
+          `| ${field} | ${percent(score.precision)} | ${percent(
+            score.recall
+          )} | ${percent(score.exactMatch)} | ${score.queries} |`
+      )
+    );
+
+    const misses = variant.queries.filter(
+      (q) =>
+        q.outcome !== "valid" ||
+        q.expected.length !== q.predicted.length ||
+        q.expected.some((value) => !q.predicted.includes(value))
+    );
+    if (misses.length > 0) {
+      lines.push("", "Misses:", "");
+      for (const miss of misses) {
+        const missing = miss.expected.filter(
+          (value) => !miss.predicted.includes(value)
+        );
+        const extra = miss.predicted.filter(
+          (value) => !miss.expected.includes(value)
+        );
+        const detail =
+          miss.outcome === "valid"
+            ? [
+                ...(missing.length > 0
+                  ? [`missing ${missing.join(", ")}`]
+                  : []),
+                ...(extra.length > 0 ? [`extra ${extra.join(", ")}`] : []),
+              ].join("; ")
+            : `${miss.outcome}${
+                miss.error ? ` (${miss.error.replace(/\n- /g, " ")})` : ""
+              }`;
+        lines.push(`- ${miss.id}: ${detail}`);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
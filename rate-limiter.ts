@@ -0,0 +1,112 @@
+/**
+ * Client-side rate and concurrency limiter
+ *
+ * Batch runs fire many LLM calls back to back and trip the provider's rate
+ * limit partway through. The limiter queues calls so that no more than
+ * maxConcurrent run at once and no more than requestsPerMinute start in
+ * any 60-second window. Calls start in the order they were scheduled; a
+ * call whose signal is aborted while it waits leaves the queue.
+ */
+
+import { CancelledError } from "./llm-errors";
+
+export interface RateLimit {
+  requestsPerMinute?: number; // no limit if omitted
+  maxConcurrent?: number; // no limit if omitted
+}
+
+const WINDOW_MS = 60000;
+
+export class RateLimiter {
+  private running = 0;
+  private starts: number[] = []; // start times within the last window
+  private queue: (() => void)[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private limit: RateLimit = {}) {
+    for (const [name, value] of Object.entries(limit)) {
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new Error(`${name} must be a positive integer, got ${value}`);
+      }
+    }
+  }
+
+  /**
+   * Run task once the limits allow it. Aborting signal before then drops
+   * the task with a CancelledError.
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Wait until the limits allow another call and hold its slot until the
+   * returned function is called. For calls that are not a single promise,
+   * such as streams. Aborting signal while waiting leaves the queue and
+   * rejects with a CancelledError.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) throw new CancelledError();
+    await new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", cancel);
+        resolve();
+      };
+      const cancel = () => {
+        this.queue = this.queue.filter((waiting) => waiting !== start);
+        reject(new CancelledError());
+      };
+      signal?.addEventListener("abort", cancel, { once: true });
+      this.queue.push(start);
+      this.next();
+    });
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running--;
+      this.next();
+    };
+  }
+
+  // Start queued tasks while the limits allow; otherwise wait for the
+  // oldest start to leave the window
+  private next(): void {
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      this.starts = this.starts.filter((start) => now - start < WINDOW_MS);
+
+      if (
+        this.limit.maxConcurrent !== undefined &&
+        this.running >= this.limit.maxConcurrent
+      ) {
+        return; // a finishing task calls next again
+      }
+      if (
+        this.limit.requestsPerMinute !== undefined &&
+        this.starts.length >= this.limit.requestsPerMinute
+      ) {
+        if (this.timer === undefined) {
+          this.timer = setTimeout(
+            () => {
+              this.timer = undefined;
+              this.next();
+            },
+            this.starts[0] + WINDOW_MS - now
+          );
+        }
+        return;
+      }
+
+      this.running++;
+      this.starts.push(now);
+      (this.queue.shift() as () => void)();
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Rule-based query parsing
+ *
+ * A deterministic keyword and pattern parser that turns a query into the same
+ * criteria group the LLM returns, using nothing but the item schema: allowed
+ * values and their synonyms are matched as words, values of ordered fields
+ * are read as single values or ranges ("V4-V6", "V5+", "up to V3"), and
+ * negations ("no slopers", "not on slab") become exclusions. It knows nothing
+ * the schema doesn't, so it is a fallback for when the LLM is unavailable,
+ * not a replacement: subjective terms and "either ... or ..." are ignored.
+ */
+
+import { ItemSchema, OrderedScale, schemaFields } from "./item-schema";
+
+// Words that rule out the noun right after them and the rest of a list
+// joined by "and", "or" or commas ("avoid crimps and slopers"). Only
+// articles and prepositions may come between the negation and the first
+// noun ("not on slab", "without any crimps"), so in "not too hard crimps"
+// the negation stays with "too hard", and anything else ends the list: in
+// "no slopers or pinches on overhangs" the overhangs are wanted.
+const NEGATION =
+  /\b(no|not|without|avoid|except|excluding|never)\s+((a|an|the|any|on|in|of|with)\s+){0,2}([\w'+-]+(\s*,\s*(and\s+|or\s+)?|\s+(and|or|nor)\s+)((a|an|the|any)\s+)?){0,6}$/;
+
+// Words around an ordered value that make it one end of an open range
+const MAX_BEFORE = /\b(up to|under|below|at most|max|no harder than)\s*$/;
+const MIN_BEFORE = /\b(at least|over|above|min|no easier than)\s*$/;
+const MIN_AFTER = /^\s*(and up|or harder|or above|or more)\b/;
+
+// Between the ends of a range: "V4 to V6", "from V3 up to V6"
+const RANGE_SEPARATOR = /^\s*(-|–|to|up to)\s*$/;
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export class RuleParser<Item> {
+  constructor(private schema: ItemSchema<Item>) {}
+
+  /**
+   * Parse a query into a criteria group; fields nothing matched are left out
+   */
+  parse(query: string): Record<string, unknown> {
+    const text = query.toLowerCase();
+    const group: Record<string, any> = {};
+    const exclude: Record<string, string[]> = {};
+    const ranges: Record<string, { min?: string; max?: string }> = {};
+
+    for (const [key, field] of schemaFields(this.schema)) {
+      if (field.scale) {
+        const { values, range } = this.parseOrdered(text, field.scale);
+        if (values.length > 0) group[key] = values;
+        if (range) ranges[key] = range;
+        continue;
+      }
+
+      const { included, excluded } = this.parseValues(
+        text,
+        field.values ?? [],
+        field.synonyms ?? {}
+      );
+      const kept = included.filter((v) => !excluded.includes(v));
+      if (kept.length > 0) group[key] = kept;
+      if (excluded.length > 0) exclude[key] = excluded;
+    }
+
+    if (Object.keys(exclude).length > 0) group.exclude = exclude;
+    if (Object.keys(ranges).length > 0) group.ranges = ranges;
+    return group;
+  }
+
+  /**
+   * Find allowed values and synonyms as whole words, plurals included.
+   * Longer phrases are matched first and blanked out, so "finger strength"
+   * is not also read as "finger".
+   */
+  private parseValues(
+    text: string,
+    values: string[],
+    synonyms: Record<string, string>
+  ): { included: string[]; excluded: string[] } {
+    const phrases: [string, string][] = [
+      ...values.map((value): [string, string] => [value.toLowerCase(), value]),
+      ...Object.entries(synonyms).map(([alias, value]): [string, string] => [
+        alias.toLowerCase(),
+        value,
+      ]),
+    ].sort((a, b) => b[0].length - a[0].length);
+
+    const included = new Set<string>();
+    const excluded = new Set<string>();
+    let remaining = text;
+
+    for (const [phrase, value] of phrases) {
+      const pattern = new RegExp(`\\b${this.escape(phrase)}(e?s)?\\b`, "g");
+
+      for (const match of Array.from(remaining.matchAll(pattern))) {
+        // The query as written, since values matched before are blanked out
+        // of remaining and a negated list needs them
+        const before = text.slice(0, match.index);
+        (NEGATION.test(before) ? excluded : included).add(value);
+      }
+      remaining = remaining.replace(pattern, (m) => " ".repeat(m.length));
+    }
+
+    return { included: Array.from(included), excluded: Array.from(excluded) };
+  }
+
+  /**
+   * Read values of an ordered field: "V4-V6" and "V4 to V6" are ranges,
+   * "V5+", "at least V5" and "V5 and up" open ranges, anything else a value
+   */
+  private parseOrdered(
+    text: string,
+    scale: OrderedScale
+  ): { values: string[]; range?: { min?: string; max?: string } } {
+    const tokens: Token[] = Array.from(text.matchAll(/[^\s,;()]+/g)).map(
+      (m) => ({
+        text: m[0],
+        start: m.index as number,
+        end: (m.index as number) + m[0].length,
+      })
+    );
+    const values: string[] = [];
+    let range: { min?: string; max?: string } | undefined;
+
+    // A bare value ("5" as a Font grade) only counts after a keyword
+    const keyword = new RegExp(
+      `\\b(${(scale.keywords ?? []).map((k) => this.escape(k)).join("|")})\\s*$`,
+      "i"
+    );
+    const canonical = (value: string, start: number) =>
+      scale.bare?.(value) &&
+      !(scale.keywords?.length && keyword.test(text.slice(0, start)))
+        ? undefined
+        : scale.canonical(value);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const value = canonical(token.text, token.start);
+
+      // "V4-V6" as one token
+      const [low, high, ...rest] = token.text.split(/-|–/);
+      if (value === undefined && high !== undefined && rest.length === 0) {
+        const min = canonical(low, token.start);
+        const max = canonical(high, token.start);
+        if (min !== undefined && max !== undefined) {
+          range = { min, max };
+          continue;
+        }
+      }
+
+      // "V5+", unless the "+" belongs to the value itself ("6A+")
+      if (value === undefined && token.text.endsWith("+")) {
+        const min = canonical(token.text.slice(0, -1), token.start);
+        if (min !== undefined) {
+          range = { min };
+          continue;
+        }
+      }
+
+      if (value === undefined) continue;
+
+      // "V4 to V6" across three tokens, "V3 up to V6" across four
+      const end = [2, 3].find((skip) => {
+        const next = tokens[i + skip];
+        return (
+          next !== undefined &&
+          canonical(next.text, token.start) !== undefined &&
+          RANGE_SEPARATOR.test(text.slice(token.end, next.start))
+        );
+      });
+      if (end !== undefined) {
+        range = {
+          min: value,
+          max: canonical(tokens[i + end].text, token.start),
+        };
+        i += end;
+        continue;
+      }
+
+      const before = text.slice(0, token.start);
+      const after = text.slice(token.end);
+      if (MAX_BEFORE.test(before)) {
+        range = { ...range, max: value };
+      } else if (MIN_BEFORE.test(before) || MIN_AFTER.test(after)) {
+        range = { ...range, min: value };
+      } else if (!values.includes(value)) {
+        values.push(value);
+      }
+    }
+
+    return { values, range };
+  }
+
+  private escape(phrase: string): string {
+    return phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}